@@ -1,7 +1,12 @@
 import {
   App, Notice, Plugin, PluginSettingTab, Setting, TFile, FuzzySuggestModal, Modal, normalizePath,
-  FuzzyMatch, requestUrl, RequestUrlResponse
+  FuzzyMatch, requestUrl, RequestUrlResponse, Menu, EventRef, moment, parseYaml, TFolder, DropdownComponent,
+  ItemView, WorkspaceLeaf, loadPdfJs, arrayBufferToBase64, parseLinktext, resolveSubpath, CachedMetadata
 } from "obsidian";
+import {
+  ChatImage, ChatMessage, ChatResult, LLMProvider, ProviderKind, TokenUsage,
+  OPENAI_PROVIDER, PROVIDERS, getProvider, parseJsonSafe, providerError, readChatStream, trimBase
+} from "./providers";
 
 /** ---------- JSON Canvas Types ---------- */
 type CanvasSide = "top" | "right" | "bottom" | "left";
@@ -32,49 +37,200 @@ interface CanvasEdge {
 
 interface CanvasData { nodes: CanvasNode[]; edges: CanvasEdge[]; }
 
+// Nodes and edges added by a command (and nodes replaced by id); written as a patch so edits made meanwhile are kept
+interface CanvasPatch { nodes: CanvasNode[]; edges: CanvasEdge[]; update?: CanvasNode[]; }
+
+// What a result node shows: a note file, or the answer inline as a text card
+type ResultContent = { file: string } | { text: string };
+
+// Minimal shape of Obsidian's live Canvas view (internal API, not part of obsidian.d.ts)
+interface LiveCanvasNode { id: string; getData?(): CanvasNode; }
+interface LiveCanvas {
+  selection?: Set<LiveCanvasNode>;
+  getData?(): CanvasData;
+  importData?(data: CanvasData): void;
+  setData?(data: CanvasData): void;
+  pushHistory?(data: CanvasData): void;
+  requestFrame?(): void;
+  requestSave?(): void;
+  nodes?: Map<string, LiveCanvasNode>;
+  deselectAll?(): void;
+  select?(node: LiveCanvasNode): void;
+  zoomToSelection?(): void;
+}
+interface LiveCanvasView { file?: TFile | null; canvas?: LiveCanvas; }
+
+// Minimal shape of the PDF.js build bundled with Obsidian (returned by loadPdfJs)
+interface PdfJsTextItem { str?: string; hasEOL?: boolean; }
+interface PdfJsDocument {
+  numPages: number;
+  getPage(n: number): Promise<{ getTextContent(): Promise<{ items: PdfJsTextItem[] }> }>;
+  destroy?(): unknown;
+}
+interface PdfJs { getDocument(src: { data: Uint8Array }): { promise: Promise<PdfJsDocument> }; }
+
 /** ---------- Settings ---------- */
-interface CanvasAskSettings {
-  openAIKey: string;
-  openAIBaseURL: string;     // e.g. https://api.openai.com
-  openAIModel: string;       // e.g. gpt-4o-mini / gpt-4.1 / etc.
+type ContextTraversal = "chain" | "dag";
+// What to do when a generated note's path is taken: keep both (numbered or timestamped name), ask, or overwrite with a backup
+type NoteCollisionMode = "suffix" | "timestamp" | "prompt" | "overwrite";
+// Where an answer goes: a new note shown as a file node, a text card stored in the canvas itself,
+// or several cards (one per idea) from a structured JSON response
+type AnswerOutput = "note" | "text" | "expand";
+const ANSWER_OUTPUT_LABELS: Record<AnswerOutput, string> = { note: "Note (file node)", text: "Text card (in canvas)", expand: "Expand into cards" };
+
+/** A named model configuration: endpoint, credentials, model, sampling parameters and system prompt */
+interface ModelProfile {
+  id: string;
+  name: string;
+  provider: ProviderKind;    // wire format: OpenAI-compatible, Anthropic Messages or Ollama
+  baseURL: string;           // e.g. https://api.openai.com
+  apiKey: string;
+  model: string;             // e.g. gpt-4o-mini / gpt-4.1 / etc.
   temperature: number;
   maxTokens: number;
-  contextCharLimitPerNode: number;
+  // Approximate token budget for the packed canvas context
+  contextTokenBudget: number;
+  // Customizable system message for API calls (blank = DEFAULT_SYSTEM_PROMPT)
+  systemPrompt: string;
+  // The model accepts images: image file nodes are attached as image content
+  vision: boolean;
+}
+
+interface CanvasAskSettings {
+  profiles: ModelProfile[];
+  defaultProfileId: string;
+  // Last profile used per canvas (canvas path → profile id)
+  canvasProfiles: Record<string, string>;
   contextHopLimit: number;
+  // How upstream context is gathered: a single top-edge chain or every ancestor (breadth-first)
+  contextTraversal: ContextTraversal;
+  // How many levels of canvases embedded as file nodes are opened for context (0 = none)
+  embeddedCanvasDepth: number;
+  // How many levels of [[links]] and ![[embeds]] in context notes are followed (0 = none)
+  linkExpansionDepth: number;
   outputFolder: string;      // where to create the answer .md (relative to vault root)
+  // Vault path of a Markdown template for answer notes (blank = built-in layout)
+  answerTemplatePath: string;
+  // Record model, canvas, parent node, timestamp and prompt hash in the answer's frontmatter
+  answerFrontmatter: boolean;
+  // Answer and chain-export notes whose filename already exists
+  onNoteCollision: NoteCollisionMode;
+  // Output preselected in the Ask dialogs
+  defaultAnswerOutput: AnswerOutput;
+  // Vault folder of prompt template notes (empty or missing = built-in templates)
+  promptTemplateFolder: string;
   // When false (default), the plugin will not call the LLM API
   // or send any canvas content to an external service.
   allowApiCalls: boolean;
   // Number of related matches to show (3..12)
   topRelatedResults: number;
-  // Customizable system message for API calls
-  systemPrompt: string;
+  // Score Find Related Ideas with the persistent full-text BM25 index
+  useRelatedIndex: boolean;
+  // Keyword scoring, embedding similarity, or both fused
+  relatedSearchMode: RelatedSearchMode;
+  // OpenAI-compatible embeddings endpoint (e.g. a local Ollama or LM Studio server)
+  embeddingBaseURL: string;
+  embeddingApiKey: string;
+  embeddingModel: string;
   // UI toggles
   showRibbonButton: boolean;
   showStatusBarButton: boolean;
+  // Stream answers into the note as they are generated
+  streamResponses: boolean;
+  // Replay earlier question/answer nodes on the branch as a multi-turn conversation
+  threadMode: boolean;
+  // Show the collected context for review (include/exclude, expand, raw JSON) before sending
+  reviewContextBeforeSending: boolean;
+  // Append every model call (messages, parameters, response, timings) to runs.jsonl
+  logRuns: boolean;
+  // Asks sent to the model at the same time; further ones wait in the job queue
+  maxConcurrentAsks: number;
+  // Per-type context caps: images attached per Ask, largest image file, tokens of text per PDF
+  maxImagesPerAsk: number;
+  maxImageSizeMB: number;
+  pdfTokenLimit: number;
+}
+
+// Single-model fields stored by versions before profiles; migrated into a "Default" profile on load
+interface LegacyModelSettings {
+  provider?: ProviderKind;
+  openAIKey?: string;
+  openAIBaseURL?: string;
+  openAIModel?: string;
+  temperature?: number;
+  maxTokens?: number;
+  systemPrompt?: string;
 }
+const LEGACY_MODEL_KEYS: Array<keyof LegacyModelSettings> = ["provider", "openAIKey", "openAIBaseURL", "openAIModel", "temperature", "maxTokens", "systemPrompt"];
 
 const DEFAULT_SYSTEM_PROMPT = `You are a careful note-taking assistant embedded in Obsidian Canvas, designed for secure, local-first knowledge management. Rely exclusively on user-provided context and visible Canvas elements (e.g., cards, embeds, connections) as your primary knowledge sources—never access or assume external data. Prioritize privacy and accuracy in all responses.
 
 Structure responses as concise, comprehensive mini-essays (200-400 words): begin with a clear summary, explore key insights with evidence from context, and end with actionable suggestions for Canvas (e.g., new card ideas, links like [[Note Title]]). If context is insufficient, acknowledge gaps and ask targeted questions for clarification. Adapt format slightly for query type (e.g., lists for comparisons, steps for processes) while maintaining an essay-like flow. Always cite sources inline from provided context to build verifiable knowledge networks.
 `;
 
-const DEFAULTS: CanvasAskSettings = {
-  openAIKey: "",
-  openAIBaseURL: "https://api.openai.com",
-  openAIModel: "gpt-4o-mini",
+const PROFILE_DEFAULTS: Omit<ModelProfile, "id" | "name"> = {
+  provider: "openai",
+  baseURL: "https://api.openai.com",
+  apiKey: "",
+  model: "gpt-4o-mini",
   temperature: 0.2,
   maxTokens: 1200,
-  contextCharLimitPerNode: 2000,
+  contextTokenBudget: 6000,
+  systemPrompt: DEFAULT_SYSTEM_PROMPT,
+  vision: false,
+};
+
+const DEFAULTS: CanvasAskSettings = {
+  profiles: [],
+  defaultProfileId: "default",
+  canvasProfiles: {},
   contextHopLimit: 3,
+  contextTraversal: "chain",
+  embeddedCanvasDepth: 2,
+  linkExpansionDepth: 0,
   outputFolder: "Ask Canvas", 
+  answerTemplatePath: "",
+  answerFrontmatter: true,
+  onNoteCollision: "suffix",
+  defaultAnswerOutput: "note",
+  promptTemplateFolder: "Ask Canvas/Prompts",
   allowApiCalls: false,
   topRelatedResults: 8,
-  systemPrompt: DEFAULT_SYSTEM_PROMPT,
+  useRelatedIndex: true,
+  relatedSearchMode: "lexical",
+  embeddingBaseURL: "https://api.openai.com",
+  embeddingApiKey: "",
+  embeddingModel: "text-embedding-3-small",
   showRibbonButton: true,
   showStatusBarButton: true,
+  streamResponses: false,
+  reviewContextBeforeSending: false,
+  threadMode: false,
+  logRuns: true,
+  maxConcurrentAsks: 2,
+  maxImagesPerAsk: 4,
+  maxImageSizeMB: 4,
+  pdfTokenLimit: 4000,
 };
 
+/** Build a complete profile from partial (possibly user-edited or legacy) data */
+function makeProfile(p: Partial<ModelProfile>): ModelProfile {
+  const provider = getProvider(p.provider ?? PROFILE_DEFAULTS.provider);
+  return {
+    id: p.id || uuid(),
+    name: (p.name ?? "").trim() || "Untitled profile",
+    provider: provider.kind,
+    baseURL: p.baseURL || provider.defaultBaseURL,
+    apiKey: p.apiKey ?? "",
+    model: p.model || PROFILE_DEFAULTS.model,
+    temperature: Number.isFinite(Number(p.temperature)) ? Number(p.temperature) : PROFILE_DEFAULTS.temperature,
+    maxTokens: Number(p.maxTokens) > 0 ? Number(p.maxTokens) : PROFILE_DEFAULTS.maxTokens,
+    contextTokenBudget: Number(p.contextTokenBudget) > 0 ? Number(p.contextTokenBudget) : PROFILE_DEFAULTS.contextTokenBudget,
+    systemPrompt: p.systemPrompt ?? PROFILE_DEFAULTS.systemPrompt,
+    vision: p.vision ?? PROFILE_DEFAULTS.vision,
+  };
+}
+
 /** ---------- Utils ---------- */
 function uuid(): string {
   return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, c => {
@@ -125,6 +281,30 @@ function truncateWords(input: string | undefined | null, maxWords: number): stri
   return words.slice(0, maxWords).join(" ") + "…";
 }
 
+/**
+ * Recover the model's answer from a generated note: drop the frontmatter, the parts the answer
+ * template added around `{{answer}}`, and the progress marker. Notes that don't match the template
+ * (written with an older one) fall back to cutting the built-in Sources tail.
+ */
+function stripAnswerNoteExtras(note: string, template = DEFAULT_ANSWER_TEMPLATE): string {
+  let s = note.replace(FRONTMATTER_RX, "").trim();
+  // A template without {{answer}} had the answer appended (see renderAnswerTemplate)
+  const body = template.replace(FRONTMATTER_RX, "").trim();
+  const tpl = hasAnswerPlaceholder(body) ? body : `${body}\n\n{{answer}}`;
+  // Literal template text must match exactly; any other placeholder matches anything
+  const pattern = tpl.split(/(\{\{\s*[a-z_]+\s*\}\})/).map((part, i) => {
+    if (i % 2 === 0) return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return /^\{\{\s*answer\s*\}\}$/.test(part) ? "([\\s\\S]*)" : "[\\s\\S]*?";
+  }).join("");
+  const m = new RegExp(`^${pattern}$`).exec(s);
+  const matched = !!m;
+  if (m) s = m[1];
+  s = s.replace(/^\s*> \[!(info|warning)\] (Generating…|Incomplete answer)\n(>.*\n)*\n?/, "");
+  const sourcesIdx = matched ? -1 : s.lastIndexOf("\n---\n\n### Sources (selected + upstream)");
+  if (sourcesIdx >= 0) s = s.slice(0, sourcesIdx);
+  return s.trim();
+}
+
 // Default limit for canvas node/edge labels (aims to match Obsidian canvas feel)
 const DEFAULT_LABEL_WORDS = 12;
 
@@ -144,17 +324,30 @@ function debounce<T extends (...args: unknown[]) => unknown>(fn: T, wait = 300):
   return wrapped;
 }
 
+// Trailing-edge throttle: while calls keep arriving, run at most once per `wait` ms
+function throttle<T extends (...args: unknown[]) => unknown>(fn: T, wait = 300): Debounced<T> {
+  let t: number | null = null;
+  let lastArgs: Parameters<T> | null = null;
+  const wrapped = ((...args: Parameters<T>) => {
+    lastArgs = args;
+    if (t != null) return;
+    t = window.setTimeout(() => {
+      t = null;
+      const a = lastArgs ?? ([] as unknown as Parameters<T>);
+      lastArgs = null;
+      // eslint-disable-next-line @typescript-eslint/ban-types
+      (fn as Function)(...a as unknown[]);
+    }, wait);
+  }) as Debounced<T>;
+  wrapped.cancel = () => { if (t != null) { window.clearTimeout(t); t = null; } lastArgs = null; };
+  return wrapped;
+}
+
 // Simple sleep helper used for retry backoff
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => window.setTimeout(resolve, ms));
 }
 
-// Sanitize text for logging/errors: collapse whitespace and truncate
-function sanitizeForLog(input: unknown, max = 300): string {
-  const s = String((input as unknown) ?? '').replace(/[\r\n\t]+/g, ' ').replace(/\s+/g, ' ').trim();
-  return s.length > max ? s.slice(0, max) + '…' : s;
-}
-
 // Hoisted stop-words set (avoid recreating per call)
 const STOP_WORDS = new Set<string>([
   "the","a","an","and","or","but","if","then","else","when","at","by","for","from","in","into","of","on","to","with","without","is","are","was","were","be","been","being","as","it","this","that","these","those","we","you","they","i","me","my","our","your","their","can","could","should","would","may","might","will","just","about","so","do","does","did","not","no","yes"
@@ -251,129 +444,1505 @@ function getNodeLabel(n: CanvasNode): string {
   return nodeLabel || extractTextField(n?.text) || "(untitled)";
 }
 
-/** ---------- Main Plugin ---------- */
-export default class CanvasAskPlugin extends Plugin {
-  settings: CanvasAskSettings;
-  private statusBarEl: HTMLElement | null = null;
-  private ribbonEl: HTMLElement | null = null;
-  private isBusy: boolean = false;
-  private askAbortController: AbortController | null = null;
-  private saveSettingsDebounced!: ReturnType<typeof debounce>;
+/** Nodes lying entirely inside a group's bounds (including nested groups and their contents), in reading order */
+function nodesInsideGroup(group: CanvasNode, nodes: CanvasNode[]): CanvasNode[] {
+  return nodes
+    .filter(n => n.id !== group.id
+      && n.x >= group.x && n.y >= group.y
+      && n.x + n.width <= group.x + group.width
+      && n.y + n.height <= group.y + group.height)
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+}
 
-  async onload() {
-    this.settings = Object.assign({}, DEFAULTS, await this.loadData());
-    // Debounced saver to avoid writing on every keystroke
-    this.saveSettingsDebounced = debounce(() => { this.saveData(this.settings); }, 350);
+/** ---------- Canvas file patching ---------- */
+// Canvas files are kept byte-for-byte except for the appended items, so a git diff shows only the
+// new nodes and edges. Obsidian writes tab-indented JSON with one node/edge per line.
 
-    this.addCommand({
-      id: "canvas-ask-upstream",
-      name: "Active Canvas Query",
-      callback: () => this.askWithUpstreamContext(),
-    });
+type TextSpan = { start: number; end: number };
 
-    // Conditionally build UI per settings
-    this.buildUiFromSettings();
+/**
+ * Locate a top-level array property in JSON text: the brackets and the span of each element.
+ * Returns null if the key is missing or isn't an array.
+ */
+function findTopLevelArray(raw: string, key: string): { open: number; close: number; items: TextSpan[] } | null {
+  let depth = 0;
+  let i = 0;
+  const skipString = (from: number) => {
+    let j = from + 1;
+    while (j < raw.length && raw[j] !== '"') j += raw[j] === "\\" ? 2 : 1;
+    return j + 1;
+  };
+  while (i < raw.length) {
+    const c = raw[i];
+    if (c === '"') {
+      const end = skipString(i);
+      if (depth === 1 && raw.slice(i + 1, end - 1) === key) {
+        const m = /^\s*:\s*\[/.exec(raw.slice(end));
+        if (!m) return null;
+        const open = end + m[0].length - 1;
+        // Walk the array, recording element spans at its own depth
+        const items: TextSpan[] = [];
+        let d = 0;
+        let start = -1;
+        let last = -1;
+        for (let j = open + 1; j < raw.length; j++) {
+          const ch = raw[j];
+          if (ch === '"') {
+            if (start < 0) start = j;
+            j = skipString(j) - 1;
+            last = j;
+          } else if (ch === "{" || ch === "[") {
+            if (start < 0) start = j;
+            d++;
+          } else if (ch === "}" || ch === "]") {
+            if (d === 0) {
+              if (start >= 0) items.push({ start, end: last + 1 });
+              return { open, close: j, items };
+            }
+            d--;
+            last = j;
+          } else if (ch === "," && d === 0) {
+            if (start >= 0) items.push({ start, end: last + 1 });
+            start = -1;
+          } else if (!/\s/.test(ch)) {
+            if (start < 0) start = j;
+            last = j;
+          }
+        }
+        return null;
+      }
+      i = end;
+      continue;
+    }
+    if (c === "{" || c === "[") depth++;
+    else if (c === "}" || c === "]") depth--;
+    i++;
+  }
+  return null;
+}
 
-    // Removed: command to open a simple UI modal (no longer needed)
+/** Indent unit used by a JSON file ("\t", "  ", …), or "" if it is minified */
+function detectIndent(raw: string): string {
+  return /\n([ \t]+)\S/.exec(raw)?.[1] ?? "";
+}
 
-    this.addCommand({
-      id: "canvas-export-chain",
-      name: "Export Chain",
-      callback: async () => this.exportChain(),
-    });
+/**
+ * Append `values` to the top-level array `key` of JSON text, formatting each new element like the
+ * existing ones (one per line, pretty-printed, or minified). Returns null if the array isn't found.
+ */
+function appendToJsonArray(raw: string, key: string, values: unknown[]): string | null {
+  if (values.length === 0) return raw;
+  const arr = findTopLevelArray(raw, key);
+  if (!arr) return null;
+
+  if (arr.items.length === 0) {
+    const unit = detectIndent(raw);
+    if (!unit) return raw.slice(0, arr.open + 1) + values.map(v => JSON.stringify(v)).join(",") + raw.slice(arr.close);
+    // Empty array: one element per line, indented one level below the key (Obsidian's layout)
+    const lineStart = raw.lastIndexOf("\n", arr.open) + 1;
+    const keyIndent = /^[ \t]*/.exec(raw.slice(lineStart))?.[0] ?? "";
+    const body = values.map(v => `${keyIndent}${unit}${JSON.stringify(v)}`).join(",\n");
+    return `${raw.slice(0, arr.open + 1)}\n${body}\n${keyIndent}${raw.slice(arr.close)}`;
+  }
 
-    this.addSettingTab(new CanvasAskSettingsTab(this.app, this));
+  const lastItem = arr.items[arr.items.length - 1];
+  const prefix = raw.slice(arr.open + 1, arr.items[0].start);   // e.g. "\n\t\t"
+  const format = arrayItemFormatter(raw, arr);
+  const added = values.map(v => `,${prefix}${format(v)}`).join("");
+  return raw.slice(0, lastItem.end) + added + raw.slice(lastItem.end);
+}
 
-    // Find related ideas: pick a node, search vault, show matches
-    this.addCommand({
-      id: "canvas-find-related",
-      name: "Find Related Ideas in Vault",
-      callback: () => this.findRelatedIdeas(),
-    });
+/** Replace element `index` of the top-level array `key` in place, in the style of its neighbours */
+function replaceInJsonArray(raw: string, key: string, index: number, value: unknown): string | null {
+  const arr = findTopLevelArray(raw, key);
+  const item = arr?.items[index];
+  if (!arr || !item) return null;
+  return raw.slice(0, item.start) + arrayItemFormatter(raw, arr)(value) + raw.slice(item.end);
+}
 
-    // Reflect Canvas availability in UI on view changes
-    this.registerEvent(this.app.workspace.on("active-leaf-change", () => this.updateUiEnabledState()));
-    // Initial state
-    this.updateUiEnabledState();
+/** Serialize new elements like the array's first one: on one line, or pretty-printed with the same indentation */
+function arrayItemFormatter(raw: string, arr: { open: number; items: TextSpan[] }): (v: unknown) => string {
+  const first = arr.items[0];
+  const prefix = raw.slice(arr.open + 1, first.start);
+  const itemIndent = prefix.slice(prefix.lastIndexOf("\n") + 1);
+  const firstText = raw.slice(first.start, first.end);
+  if (!firstText.includes("\n")) return (v) => JSON.stringify(v);
+  // Pretty-printed elements: reuse the nesting unit found inside the first one
+  const inner = /\n([ \t]*)\S/.exec(firstText)?.[1] ?? itemIndent;
+  const unit = inner.slice(itemIndent.length) || detectIndent(raw) || "\t";
+  return (v) => JSON.stringify(v, null, unit).replace(/\n/g, `\n${itemIndent}`);
+}
+
+/** ---------- Answer notes ---------- */
+// Built-in layout; a template file set in settings replaces it
+const DEFAULT_ANSWER_TEMPLATE = `{{answer}}
+
+---
+
+### Sources (selected + upstream)
+{{sources}}
+`;
+
+// Recorded with every answer: fills the template placeholders and the YAML frontmatter
+interface AnswerNoteMeta {
+  question: string;
+  profile: ModelProfile;
+  canvasPath: string;
+  parentId: string;
+  parentLabel: string;
+  created: Date;
+  promptHash: string;
+  template?: string;
+  usage?: TokenUsage;
+}
+
+const TEMPLATE_PLACEHOLDER_RX = /\{\{\s*([a-z_]+)\s*\}\}/g;
+const FRONTMATTER_RX = /^---\r?\n([\s\S]*?\r?\n)?---[ \t]*(\r?\n|$)/;
+
+function formatUsage(usage?: TokenUsage): string {
+  if (!usage || (usage.inputTokens == null && usage.outputTokens == null)) return "";
+  return `${usage.inputTokens ?? "?"} in / ${usage.outputTokens ?? "?"} out`;
+}
+
+/**
+ * Fill a template in one pass (so placeholder-like text inside the answer is never expanded).
+ * Unknown placeholders are left as written. A template without {{answer}} gets the answer appended.
+ */
+function renderAnswerTemplate(template: string, answer: string, sourcesMarkdown: string, meta: AnswerNoteMeta): string {
+  const values: Record<string, string> = {
+    answer,
+    question: meta.question,
+    sources: sourcesMarkdown,
+    model: meta.profile.model,
+    profile: meta.profile.name,
+    date: moment(meta.created).format("YYYY-MM-DD HH:mm"),
+    canvas: meta.canvasPath,
+    parent: meta.parentLabel,
+    tokens: formatUsage(meta.usage),
+    input_tokens: meta.usage?.inputTokens != null ? String(meta.usage.inputTokens) : "",
+    output_tokens: meta.usage?.outputTokens != null ? String(meta.usage.outputTokens) : "",
+  };
+  const filled = template.replace(TEMPLATE_PLACEHOLDER_RX, (m, key: string) => values[key] ?? m);
+  return hasAnswerPlaceholder(template) ? filled : `${filled.trimEnd()}\n\n${answer}\n`;
+}
+
+function hasAnswerPlaceholder(template: string): boolean {
+  return /\{\{\s*answer\s*\}\}/.test(template);
+}
+
+/** Add run metadata to the note's frontmatter (merged into one the template already has; its keys win) */
+function withAnswerFrontmatter(body: string, meta: AnswerNoteMeta): string {
+  const fields: Array<[string, string | number | undefined]> = [
+    ["generator", "ask-canvas"],
+    ["model", meta.profile.model],
+    ["temperature", meta.profile.temperature],
+    ["canvas", meta.canvasPath],
+    ["parent_node", meta.parentId],
+    ["created", moment(meta.created).format()],
+    ["prompt_hash", meta.promptHash],
+    ["prompt_template", meta.template],
+    ["input_tokens", meta.usage?.inputTokens],
+    ["output_tokens", meta.usage?.outputTokens],
+  ];
+  const existing = FRONTMATTER_RX.exec(body);
+  const yaml = existing?.[1] ?? "";
+  const lines = fields
+    .filter(([k, v]) => v !== undefined && v !== "" && !new RegExp(`^${k}\\s*:`, "m").test(yaml))
+    // JSON strings are valid YAML double-quoted scalars
+    .map(([k, v]) => `${k}: ${typeof v === "number" ? v : JSON.stringify(v)}`);
+  if (!existing) return `---\n${lines.join("\n")}\n---\n${body}`;
+  return `---\n${lines.join("\n")}\n${yaml}---\n${body.slice(existing[0].length)}`;
+}
+
+/** Text card body: the answer, with the sources folded into a collapsed callout */
+function answerCardText(answer: string, sourcesMarkdown: string): string {
+  if (!sourcesMarkdown.trim()) return answer;
+  const quoted = sourcesMarkdown.split("\n").map(l => `> ${l}`).join("\n");
+  return `${answer}\n\n> [!quote]- Sources\n${quoted}`;
+}
+
+/** Approximate canvas size for a text card: wider for long text, tall enough for the wrapped lines */
+function textCardSize(text: string): { width: number; height: number } {
+  const width = text.length > 1500 ? 600 : text.length > 400 ? 480 : 360;
+  const charsPerLine = Math.floor((width - 48) / 8);
+  let lines = 0;
+  for (const line of text.split("\n")) lines += Math.max(1, Math.ceil(line.length / charsPerLine));
+  const height = Math.min(1200, Math.max(80, Math.ceil((lines * 24 + 48) / 20) * 20));
+  return { width, height };
+}
+
+// "Expand into cards": the response shape requested from the model
+interface ExpandedCard { title: string; body: string; relation: string; }
+
+// How many cards the prompt asks for; the parser keeps up to MAX_EXPANDED_CARDS if the model gives more
+const REQUESTED_CARDS = { min: 3, max: 6 };
+const MAX_EXPANDED_CARDS = 8;
+
+const EXPANDED_CARDS_SCHEMA: Record<string, unknown> = {
+  type: "object",
+  properties: {
+    cards: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          body: { type: "string" },
+          relation: { type: "string" },
+        },
+        required: ["title", "body", "relation"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["cards"],
+  additionalProperties: false,
+};
+
+/** Validate a cards response; null if it isn't usable JSON of the requested shape */
+function parseExpandedCards(text: string): ExpandedCard[] | null {
+  // Tolerate a Markdown code fence around the JSON
+  const raw = text.trim().replace(/^```(?:json)?[ \t]*\n?/i, "").replace(/\n?```$/, "");
+  const json = parseJsonSafe(raw);
+  const list = Array.isArray(json) ? json : isRecord(json) ? json.cards : undefined;
+  if (!Array.isArray(list) || list.length === 0) return null;
+  const cards: ExpandedCard[] = [];
+  for (const c of list.slice(0, MAX_EXPANDED_CARDS)) {
+    if (!isRecord(c) || typeof c.title !== "string" || typeof c.body !== "string" || !c.title.trim()) return null;
+    cards.push({ title: c.title.trim(), body: c.body.trim(), relation: typeof c.relation === "string" ? c.relation.trim() : "" });
   }
+  return cards;
+}
 
-  /** Queue a debounced settings save */
-  scheduleSaveSettings() {
-    this.saveSettingsDebounced();
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** ---------- Prompt templates ---------- */
+/**
+ * A reusable way of asking: its own system prompt, a user prompt with {{question}}/{{context}}
+ * variables and a preferred output. Stored as Markdown files (frontmatter + "# System" and
+ * "# Prompt" sections) so a team can share them through the vault.
+ */
+interface PromptTemplate {
+  name: string;
+  system: string;            // blank = the profile's system prompt
+  prompt: string;
+  output?: AnswerOutput;
+  // Used when the question box is left empty (blank = the template name)
+  question: string;
+  // Preselected when asking from a node of one of these types
+  nodeTypes: CanvasNodeType[];
+  path?: string;             // source file; built-ins have none
+}
+
+const PROMPT_CONTEXT_HEADING = "# Selected node + Upstream Context";
+
+const BUILTIN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    name: "Summarize",
+    system: "You summarize notes faithfully. Use only the provided context and keep the author's terminology.",
+    prompt: "Summarize the selected node in light of its upstream context: the main claim first, then the key supporting points as a short list.\n\nFocus: {{question}}\n\n{{context}}",
+    output: "note",
+    question: "Summarize",
+    nodeTypes: [],
+  },
+  {
+    name: "Critique",
+    system: "You are a constructive but demanding reviewer. Point out weak reasoning, missing evidence and unclear wording, citing the context.",
+    prompt: "Critique the selected node. Rank the issues by importance and suggest a concrete fix for each.\n\nFocus: {{question}}\n\n{{context}}",
+    output: "note",
+    question: "Critique",
+    nodeTypes: [],
+  },
+  {
+    name: "Find counterarguments",
+    system: "You argue the other side fairly. Give the strongest objections a thoughtful critic would raise, not straw men.",
+    prompt: "Find the strongest counterarguments to the selected node, each with what would have to be true for it to hold.\n\nFocus: {{question}}\n\n{{context}}",
+    output: "expand",
+    question: "Find counterarguments",
+    nodeTypes: [],
+  },
+  {
+    name: "Generate next steps",
+    system: "You turn ideas into action. Propose specific, doable next steps grounded in the context.",
+    prompt: "Suggest the next steps that follow from the selected node, in the order they should be done.\n\nFocus: {{question}}\n\n{{context}}",
+    output: "expand",
+    question: "Generate next steps",
+    nodeTypes: [],
+  },
+  {
+    name: "Explain like I'm new",
+    system: "You explain to a newcomer: plain words, one idea at a time, jargon defined on first use, a concrete example for each abstract point.",
+    prompt: "Explain the selected node to someone new to the topic.\n\nFocus: {{question}}\n\n{{context}}",
+    output: "text",
+    question: "Explain like I'm new",
+    nodeTypes: [],
+  },
+];
+
+/** Fill {{question}} and {{context}}; a prompt without {{context}} gets the context appended */
+function renderPromptTemplate(prompt: string, question: string, contextText: string): string {
+  const rendered = prompt.replace(/\{\{\s*(question|context)\s*\}\}/g, (_m, key: string) => key === "question" ? question : contextText);
+  return /\{\{\s*context\s*\}\}/.test(prompt) ? rendered : `${rendered}\n\n${PROMPT_CONTEXT_HEADING}\n${contextText}`;
+}
+
+/** Read a template file: frontmatter (output, question, node-types) plus "# System" / "# Prompt" sections */
+function parsePromptTemplate(name: string, raw: string, path?: string): PromptTemplate {
+  const fm = FRONTMATTER_RX.exec(raw);
+  let yaml: unknown = null;
+  try { yaml = fm?.[1] ? parseYaml(fm[1]) : null; } catch (e) { console.warn(`Invalid frontmatter in prompt template ${path ?? name}`, e); }
+  const meta = isRecord(yaml) ? yaml : {};
+  const body = fm ? raw.slice(fm[0].length) : raw;
+
+  // Without a "# Prompt" heading the whole body is the prompt
+  const sections = new Map<string, string>();
+  const headingRx = /^#[ \t]+(System|Prompt)[ \t]*$/gim;
+  const heads: Array<{ key: string; start: number; end: number }> = [];
+  let m: RegExpExecArray | null;
+  while ((m = headingRx.exec(body))) heads.push({ key: m[1].toLowerCase(), start: m.index, end: m.index + m[0].length });
+  heads.forEach((h, i) => sections.set(h.key, body.slice(h.end, heads[i + 1]?.start ?? body.length).trim()));
+
+  const output = typeof meta.output === "string" && meta.output in ANSWER_OUTPUT_LABELS ? meta.output as AnswerOutput : undefined;
+  const rawTypes = meta["node-types"];
+  const typeList = Array.isArray(rawTypes) ? rawTypes : typeof rawTypes === "string" ? rawTypes.split(",") : [];
+  const nodeTypes = typeList
+    .map(t => String(t).trim().toLowerCase())
+    .filter((t): t is CanvasNodeType => t === "text" || t === "file" || t === "link" || t === "group");
+  return {
+    name,
+    system: sections.get("system") ?? "",
+    prompt: sections.get("prompt") ?? body.trim(),
+    output,
+    question: typeof meta.question === "string" ? meta.question.trim() : "",
+    nodeTypes,
+    path,
+  };
+}
+
+/** The Markdown file form of a template (inverse of parsePromptTemplate) */
+function promptTemplateMarkdown(t: PromptTemplate): string {
+  const fm = [
+    ...(t.output ? [`output: ${t.output}`] : []),
+    `question: ${JSON.stringify(t.question)}`,
+    `node-types: [${t.nodeTypes.join(", ")}]`,
+  ];
+  return `---\n${fm.join("\n")}\n---\n# System\n${t.system}\n\n# Prompt\n${t.prompt}\n`;
+}
+
+/** ---------- Context budget ---------- */
+// "skipped" = collected but not sendable (unsupported file, image the profile can't take, …)
+type BudgetMode = "full" | "trimmed" | "summary" | "dropped" | "excluded" | "skipped";
+
+interface ContextBudgetItem {
+  id: string;
+  label: string;
+  type: CanvasNodeType;
+  depth: number;        // 0 = selected node
+  chars: number;        // characters of the full part
+  tokens: number;       // estimated tokens of the full part
+  allocated: number;    // tokens granted by the allocator
+  used: number;         // tokens actually sent
+  mode: BudgetMode;
+  sent: string;         // the text actually sent for this node ("" when nothing is)
+  reason?: string;      // why a skipped node isn't sent
+}
+
+// Per-Ask overrides chosen in the context review step
+interface ContextOverrides {
+  exclude?: Set<string>;   // node ids left out entirely
+  expand?: Set<string>;    // node ids sent in full regardless of budget
+}
+
+interface ContextBudgetReport { budget: number; used: number; items: ContextBudgetItem[]; }
+
+interface MaterializedContext {
+  text: string;
+  sourcesMarkdown: string;
+  budget: ContextBudgetReport;
+  // Image file nodes attached as image content (vision profiles only)
+  images?: ChatImage[];
+  // Earlier question/answer pairs along the branch, oldest first (thread mode only)
+  turns?: ThreadTurn[];
+}
+
+/** One earlier exchange: the question edge label and the answer note it produced */
+interface ThreadTurn { nodeId: string; question: string; answer: string; source: string; }
+
+// Below this many tokens a trimmed excerpt is rarely useful; send an outline instead
+const MIN_EXCERPT_TOKENS = 48;
+
+// Rough prompt cost of one attached image (providers charge roughly 100–1600 tokens by size)
+const IMAGE_TOKEN_ESTIMATE = 800;
+const IMAGE_MIME_TYPES: Record<string, string> = { png: "image/png", jpg: "image/jpeg", jpeg: "image/jpeg", gif: "image/gif", webp: "image/webp" };
+// File nodes read as text; other types (besides images and PDFs) are listed as unsupported
+const TEXT_FILE_EXTENSIONS = new Set(["md", "txt", "canvas", "csv", "tsv", "json", "yaml", "yml", "xml", "html", "css", "js", "ts", "py"]);
+// Most notes and sections pulled in by link expansion per Ask
+const MAX_LINKED_PARTS = 24;
+
+// Approximate BPE-style token pieces: word runs, digit runs, CJK characters and single symbols
+const TOKEN_PIECE_RX = /[぀-ヿ㐀-鿿가-힯]|\p{L}+|\p{N}+|[^\s\p{L}\p{N}]/gu;
+
+function tokenPieceCost(piece: string): number {
+  const c = piece.charCodeAt(0);
+  if (c >= 0x3040 && c <= 0xd7af) return 1;
+  if (/^\p{N}/u.test(piece)) return Math.ceil(piece.length / 3);
+  if (/^\p{L}/u.test(piece)) return Math.max(1, Math.ceil(piece.length / 4));
+  return 1;
+}
+
+/** Estimate the token count of a string without a model tokenizer (usually within ~15% for English prose) */
+function estimateTokens(text: string): number {
+  const rx = new RegExp(TOKEN_PIECE_RX.source, TOKEN_PIECE_RX.flags);
+  let n = 0;
+  let m: RegExpExecArray | null;
+  while ((m = rx.exec(text)) != null) n += tokenPieceCost(m[0]);
+  return n;
+}
+
+/** Cut text so that its estimated token count fits `maxTokens`; appends an ellipsis when cut */
+function truncateToTokens(text: string, maxTokens: number): string {
+  if (maxTokens <= 0) return "";
+  const rx = new RegExp(TOKEN_PIECE_RX.source, TOKEN_PIECE_RX.flags);
+  let n = 0;
+  let m: RegExpExecArray | null;
+  while ((m = rx.exec(text)) != null) {
+    n += tokenPieceCost(m[0]);
+    if (n > maxTokens) return text.slice(0, m.index).trimEnd() + " …";
   }
+  return text;
+}
 
-  /** Find related notes in the vault for a selected node */
-  private async findRelatedIdeas() {
-    const canvasFile = this.app.workspace.getActiveFile();
-    if (!canvasFile || canvasFile.extension !== "canvas") {
-      new Notice("Open a .canvas file first.");
-      return;
+/** One-line outline of a part: its first line plus any Markdown headings */
+function outlineForBudget(text: string): string {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  const first = lines[0] ?? "";
+  const headings = lines.filter(l => /^#{1,6}\s/.test(l) && l !== first).map(l => l.replace(/^#+\s*/, ""));
+  return [first, ...headings].join(" · ");
+}
+
+// A stretch of a note between two headings (or two blocks), as offsets into its content
+interface TextSection { start: number; end: number; }
+
+/**
+ * Split a note into sections at its headings (or, without headings, at its Markdown blocks) using
+ * metadata cache positions. Frontmatter is left out. Undefined when there is nothing to choose
+ * between or the cache doesn't match `content`.
+ */
+function noteSections(cache: CachedMetadata, content: string): TextSection[] | undefined {
+  const bodyStart = cache.frontmatterPosition?.end.offset ?? 0;
+  const marks = cache.headings?.length ? cache.headings : (cache.sections ?? []).filter(sec => sec.type !== "yaml");
+  const starts = marks.map(m => m.position.start.offset).filter(o => o >= bodyStart);
+  if (starts.length === 0 || starts[starts.length - 1] > content.length) return undefined;
+  if (content.slice(bodyStart, starts[0]).trim()) starts.unshift(bodyStart);
+  if (starts.length < 2) return undefined;
+  return starts.map((start, i) => ({ start, end: starts[i + 1] ?? content.length }));
+}
+
+/**
+ * Keyword relevance of a Markdown section: the distinct query terms it contains (those in its heading
+ * count twice), plus hit density as a tie-breaker
+ */
+function sectionKeywordScore(text: string, terms: Set<string>): number {
+  if (terms.size === 0) return 0;
+  const firstBreak = text.indexOf("\n");
+  const firstLine = firstBreak < 0 ? text : text.slice(0, firstBreak);
+  const heading = new Set(/^#{1,6}\s/.test(firstLine) ? searchTerms(firstLine) : []);
+  const words = searchTerms(text);
+  const matched = new Set(words.filter(w => terms.has(w)));
+  let score = 0;
+  for (const t of matched) score += heading.has(t) ? 2 : 1;
+  const hits = words.filter(w => terms.has(w)).length;
+  return score + hits / (words.length + 1);
+}
+
+/**
+ * Fit a long note into `maxTokens` by sections instead of from the top: the highest-scoring sections
+ * that fit are kept (ties go to the earlier one) and joined in document order, with "…" lines where
+ * sections were left out. A relevant section too long for the room left is truncated into it, as is
+ * the best section when none fits.
+ */
+function selectSections(body: string, sections: TextSection[], scores: number[], maxTokens: number): string {
+  const texts = sections.map(sec => body.slice(sec.start, sec.end).trim());
+  const order = texts.map((_, i) => i).sort((a, b) => scores[b] - scores[a] || a - b);
+  const chosen = new Set<number>();
+  let remaining = maxTokens;
+  for (const i of order) {
+    if (!texts[i]) continue;
+    // Room for the section and an ellipsis line
+    const cost = estimateTokens(texts[i]) + 2;
+    if (cost <= remaining) {
+      chosen.add(i);
+      remaining -= cost;
+    } else if (scores[i] > 0 && remaining - 2 >= MIN_EXCERPT_TOKENS) {
+      texts[i] = truncateToTokens(texts[i], remaining - 2);
+      chosen.add(i);
+      remaining = 0;
     }
+  }
+  if (chosen.size === 0) return truncateToTokens(texts[order[0]], maxTokens);
+
+  const out: string[] = [];
+  let last = -1;
+  for (let i = 0; i < texts.length; i++) {
+    // Empty sections are not gaps
+    if (!texts[i] && last === i - 1) last = i;
+    if (!chosen.has(i)) continue;
+    if (i > last + 1) out.push("…");
+    out.push(texts[i]);
+    last = i;
+  }
+  if (last < texts.length - 1) out.push("…");
+  return out.join("\n\n");
+}
 
-    const data = await this.readCanvas(canvasFile);
-    if (data.nodes.length === 0) {
-      new Notice("Canvas is empty.");
-      return;
+/**
+ * Split `budget` tokens between parts, weighting each by 1 / (1 + depth) so the selected node and near
+ * ancestors get the largest shares. Water-filling: any part that fits entirely inside its share takes
+ * only what it needs and the remainder is redistributed among the others.
+ */
+function allocateBudget(parts: Array<{ tokens: number; depth: number }>, budget: number): number[] {
+  const alloc = new Array<number>(parts.length).fill(0);
+  let open = parts.map((_, i) => i);
+  let remaining = Math.max(0, budget);
+  while (open.length > 0) {
+    const totalWeight = open.reduce((sum, i) => sum + 1 / (1 + parts[i].depth), 0);
+    const fits = open.filter(i => parts[i].tokens <= remaining * (1 / (1 + parts[i].depth)) / totalWeight);
+    if (fits.length === 0) {
+      for (const i of open) alloc[i] = Math.floor(remaining * (1 / (1 + parts[i].depth)) / totalWeight);
+      break;
     }
+    for (const i of fits) { alloc[i] = parts[i].tokens; remaining -= parts[i].tokens; }
+    open = open.filter(i => !fits.includes(i));
+  }
+  return alloc;
+}
 
-    const selected = await this.pickNode(data, canvasFile.path);
-    if (!selected) return;
+/** ---------- Related index ---------- */
+// Search terms: lowercase alphanumerics (plus # and + so tags and C++ survive), minus stop words
+function searchTerms(text: string): string[] {
+  const out: string[] = [];
+  for (const raw of text.toLowerCase().split(/[^a-z0-9#+]+/)) {
+    const t = raw.trim();
+    if (!t) continue;
+    if (STOP_WORDS.has(t)) continue;
+    if (t.length < 3 && !t.startsWith('#')) continue; // allow short tags like #ai
+    out.push(t);
+  }
+  return out;
+}
 
-    const queryText = await this.getSearchTextFromNode(selected);
-    if (!queryText || !queryText.trim()) {
-      new Notice("No searchable text on the selected node.");
-      return;
+interface IndexedDoc { mtime: number; len: number; terms: Record<string, number>; }
+interface SerializedRelatedIndex { version: number; docs: Record<string, IndexedDoc>; }
+
+const RELATED_INDEX_VERSION = 1;
+// How often in-memory index changes are written to related-index.json (also written on unload)
+const RELATED_INDEX_SAVE_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Full-text inverted index over vault notes, scored with BM25.
+ * Each document keeps its term frequencies (the persisted form) so it can be removed or replaced
+ * without a rebuild; postings are derived from them in memory.
+ */
+class RelatedIndex {
+  private docs = new Map<string, IndexedDoc>();
+  private postings = new Map<string, Map<string, number>>();
+  private totalLen = 0;
+  // Set on every change; cleared by the owner after persisting
+  dirty = false;
+
+  get size(): number { return this.docs.size; }
+
+  paths(): string[] { return Array.from(this.docs.keys()); }
+
+  /** Whether `path` is indexed at this modification time */
+  isFresh(path: string, mtime: number): boolean {
+    return this.docs.get(path)?.mtime === mtime;
+  }
+
+  upsert(path: string, mtime: number, text: string) {
+    this.remove(path);
+    const terms: Record<string, number> = Object.create(null);
+    let len = 0;
+    for (const t of searchTerms(text)) { terms[t] = (terms[t] ?? 0) + 1; len++; }
+    this.addDoc(path, { mtime, len, terms });
+    this.dirty = true;
+  }
+
+  remove(path: string) {
+    const doc = this.docs.get(path);
+    if (!doc) return;
+    for (const t of Object.keys(doc.terms)) {
+      const posting = this.postings.get(t);
+      posting?.delete(path);
+      if (posting && posting.size === 0) this.postings.delete(t);
     }
+    this.totalLen -= doc.len;
+    this.docs.delete(path);
+    this.dirty = true;
+  }
 
-    const tokens = this.tokenizeQuery(queryText);
-    if (tokens.size === 0) {
-      new Notice("Not enough signal in selection to search.");
-      return;
+  rename(oldPath: string, newPath: string) {
+    const doc = this.docs.get(oldPath);
+    if (!doc) return;
+    this.remove(oldPath);
+    this.addDoc(newPath, doc);
+    this.dirty = true;
+  }
+
+  /** BM25 (k1 = 1.2, b = 0.75) over the query tokens; highest score first */
+  search(tokens: Iterable<string>, limit: number): Array<{ path: string; score: number }> {
+    const n = this.docs.size;
+    if (n === 0) return [];
+    const k1 = 1.2;
+    const b = 0.75;
+    const avgLen = this.totalLen / n || 1;
+    const scores = new Map<string, number>();
+    for (const t of tokens) {
+      const posting = this.postings.get(t);
+      if (!posting) continue;
+      const idf = Math.log(1 + (n - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [path, tf] of posting) {
+        const len = this.docs.get(path)?.len ?? avgLen;
+        const s = idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * len / avgLen));
+        scores.set(path, (scores.get(path) ?? 0) + s);
+      }
     }
+    return Array.from(scores, ([path, score]) => ({ path, score }))
+      .sort((x, y) => y.score - x.score)
+      .slice(0, limit);
+  }
 
-    // Stage 1: metadata-only scoring to shortlist candidates
-    const markdownFiles = this.app.vault.getMarkdownFiles();
-    const metaRanked = this.rankByMetadata(markdownFiles, tokens);
-    const shortlist = metaRanked.slice(0, 100).map(r => r.file);
+  toJSON(): SerializedRelatedIndex {
+    const docs: Record<string, IndexedDoc> = {};
+    for (const [path, doc] of this.docs) docs[path] = doc;
+    return { version: RELATED_INDEX_VERSION, docs };
+  }
 
-    // Stage 2: content scoring on shortlist (async, limited concurrency)
-    const scored = await this.rankByContent(shortlist, tokens, 3000);
-    // Merge meta + content scores
-    const merged = new Map<string, { file: TFile; score: number; snippet?: string }>();
-    for (const r of metaRanked) merged.set(r.file.path, { file: r.file, score: r.score });
-    for (const r of scored) {
-      const m = merged.get(r.file.path) || { file: r.file, score: 0 };
-      m.score += r.score;
-      if (r.snippet && !m.snippet) m.snippet = r.snippet;
-      merged.set(r.file.path, m);
+  static fromJSON(raw: unknown): RelatedIndex {
+    const index = new RelatedIndex();
+    const data = raw as Partial<SerializedRelatedIndex> | undefined;
+    // An index from another format version is discarded and rebuilt
+    if (!data || data.version !== RELATED_INDEX_VERSION || !isRecord(data.docs)) return index;
+    for (const [path, doc] of Object.entries(data.docs)) {
+      if (isRecord(doc) && isRecord(doc.terms)) index.addDoc(path, doc as IndexedDoc);
     }
-    // Exclude the canvas itself and (if applicable) the selected file-node itself
-    const selectedFilePath = (selected.type === "file")
-      ? normalizePath(resolveFilePath(selected.file))
-      : "";
-    const toShow = Math.max(3, Math.min(12, this.settings.topRelatedResults || DEFAULTS.topRelatedResults));
-    const finalList = Array.from(merged.values())
-      .filter(r => r.score > 0 && r.file.path !== canvasFile.path && r.file.path !== selectedFilePath)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, toShow);
+    return index;
+  }
 
-    if (finalList.length === 0) {
-      new Notice("No related notes found.");
-      return;
+  private addDoc(path: string, doc: IndexedDoc) {
+    this.docs.set(path, doc);
+    this.totalLen += doc.len;
+    for (const [t, tf] of Object.entries(doc.terms)) {
+      let posting = this.postings.get(t);
+      if (!posting) { posting = new Map(); this.postings.set(t, posting); }
+      posting.set(path, tf);
     }
+  }
+}
 
-    type Item = { file: TFile; label: string; score: number; snippet?: string };
-    const items: Item[] = finalList.map(r => ({
-      file: r.file,
-      score: r.score,
-      snippet: r.snippet,
-      label: `${r.file.basename}  ·  ${r.file.path}`,
+/** ---------- Semantic search ---------- */
+type RelatedSearchMode = "lexical" | "semantic" | "hybrid";
+
+interface EmbeddedChunk { snippet: string; vector: Float32Array; }
+interface EmbeddedFile { mtime: number; chunks: EmbeddedChunk[]; }
+interface SerializedEmbeddings {
+  version: number;
+  model: string;
+  files: Record<string, { mtime: number; chunks: Array<{ snippet: string; vector: string }> }>;
+}
+
+const EMBEDDINGS_VERSION = 1;
+// A search embeds up to this many new or changed notes itself; more are embedded in the background
+const MAX_INLINE_EMBED_NOTES = 20;
+// Stop embedding after this many failed requests in a row (e.g. the endpoint is down)
+const MAX_FAILED_EMBED_ROUNDS = 3;
+
+/** Whether a base URL points at this machine (traffic never leaves it) */
+function isLocalEndpoint(url: string): boolean {
+  try {
+    return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/** Split a note into paragraph-aligned chunks of roughly `maxChars`, at most `maxChunks` of them */
+function chunkForEmbedding(text: string, maxChars = 1200, maxChunks = 16): string[] {
+  const body = text.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, ""); // skip frontmatter
+  const chunks: string[] = [];
+  let current = "";
+  for (const para of body.split(/\n\s*\n/)) {
+    const p = para.trim();
+    if (!p) continue;
+    if (current && current.length + p.length + 2 > maxChars) {
+      chunks.push(current);
+      if (chunks.length >= maxChunks) return chunks;
+      current = "";
+    }
+    // A single oversized paragraph is hard-split
+    let rest = p;
+    while (rest.length > maxChars) {
+      chunks.push(rest.slice(0, maxChars));
+      if (chunks.length >= maxChunks) return chunks;
+      rest = rest.slice(maxChars);
+    }
+    current = current ? `${current}\n\n${rest}` : rest;
+  }
+  if (current && chunks.length < maxChunks) chunks.push(current);
+  return chunks;
+}
+
+/** Unit-length copy of a vector, so cosine similarity is a plain dot product */
+function normalizeVector(v: ArrayLike<number>): Float32Array {
+  const out = new Float32Array(v.length);
+  let norm = 0;
+  for (let i = 0; i < v.length; i++) norm += v[i] * v[i];
+  norm = Math.sqrt(norm) || 1;
+  for (let i = 0; i < v.length; i++) out[i] = v[i] / norm;
+  return out;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  const n = Math.min(a.length, b.length);
+  let s = 0;
+  for (let i = 0; i < n; i++) s += a[i] * b[i];
+  return s;
+}
+
+// Vectors are stored as base64 Float32 (about a third of the JSON-number size)
+function encodeVector(v: Float32Array): string {
+  const bytes = new Uint8Array(v.buffer, v.byteOffset, v.byteLength);
+  let bin = "";
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return btoa(bin);
+}
+
+function decodeVector(s: string): Float32Array {
+  const bin = atob(s);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return new Float32Array(bytes.buffer);
+}
+
+/**
+ * Hybrid ranking: reciprocal rank fusion of the keyword and semantic result lists.
+ * Rank-based, so the incomparable score scales never need calibrating against each other.
+ */
+function fuseRankings(
+  lexical: Array<{ file: TFile; score: number; snippet?: string }>,
+  semantic: Array<{ file: TFile; similarity: number; snippet: string }>,
+  k = 60,
+): Array<{ file: TFile; score: number; snippet?: string; scoreLabel: string }> {
+  const fused = new Map<string, { file: TFile; score: number; snippet?: string; lex?: number; sim?: number }>();
+  lexical.forEach((r, rank) => {
+    fused.set(r.file.path, { file: r.file, score: 1 / (k + rank + 1), snippet: r.snippet, lex: r.score });
+  });
+  semantic.forEach((r, rank) => {
+    const f = fused.get(r.file.path) ?? { file: r.file, score: 0 };
+    f.score += 1 / (k + rank + 1);
+    f.snippet ??= r.snippet;
+    f.sim = r.similarity;
+    fused.set(r.file.path, f);
+  });
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .map(f => ({
+      file: f.file,
+      score: f.score,
+      snippet: f.snippet,
+      scoreLabel: `${f.lex != null ? Math.round(f.lex * 10) / 10 : "–"} · ${f.sim != null ? f.sim.toFixed(2) : "–"}`,
     }));
+}
 
-    const plugin = this;
-    const node = selected;
-    class RelatedModal extends FuzzySuggestModal<Item> {
-      constructor(app: App, public readonly queryPreview: string) { super(app); }
+/**
+ * Cache of note chunk embeddings keyed by path and file mtime. A note is re-embedded only when its
+ * mtime changes; a cache built with another model is discarded on load.
+ */
+class EmbeddingStore {
+  private files = new Map<string, EmbeddedFile>();
+  // Vectors of note sections and questions (section-aware extraction), kept in memory only
+  private vectors = new Map<string, Float32Array>();
+  // Set on every change; cleared by the owner after persisting
+  dirty = false;
+
+  constructor(readonly model: string) {}
+
+  get size(): number { return this.files.size; }
+
+  paths(): string[] { return Array.from(this.files.keys()); }
+
+  isFresh(path: string, mtime: number): boolean {
+    return this.files.get(path)?.mtime === mtime;
+  }
+
+  set(path: string, mtime: number, chunks: EmbeddedChunk[]) {
+    this.files.set(path, { mtime, chunks });
+    this.dirty = true;
+  }
+
+  remove(path: string) {
+    if (this.files.delete(path)) this.dirty = true;
+  }
+
+  vector(key: string): Float32Array | undefined {
+    return this.vectors.get(key);
+  }
+
+  setVector(key: string, vector: Float32Array) {
+    if (this.vectors.size >= 5000) this.vectors.clear();
+    this.vectors.set(key, vector);
+  }
+
+  rename(oldPath: string, newPath: string) {
+    const f = this.files.get(oldPath);
+    if (!f) return;
+    this.files.delete(oldPath);
+    this.files.set(newPath, f);
+    this.dirty = true;
+  }
+
+  /** Rank notes by their best-matching chunk (cosine similarity) */
+  search(query: Float32Array, limit: number): Array<{ path: string; similarity: number; snippet: string }> {
+    const res: Array<{ path: string; similarity: number; snippet: string }> = [];
+    for (const [path, f] of this.files) {
+      let best = -Infinity;
+      let snippet = "";
+      for (const c of f.chunks) {
+        const sim = dot(query, c.vector);
+        if (sim > best) { best = sim; snippet = c.snippet; }
+      }
+      if (best > -Infinity) res.push({ path, similarity: best, snippet });
+    }
+    return res.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+  }
+
+  toJSON(): SerializedEmbeddings {
+    const files: SerializedEmbeddings["files"] = {};
+    for (const [path, f] of this.files) {
+      files[path] = { mtime: f.mtime, chunks: f.chunks.map(c => ({ snippet: c.snippet, vector: encodeVector(c.vector) })) };
+    }
+    return { version: EMBEDDINGS_VERSION, model: this.model, files };
+  }
+
+  static fromJSON(raw: unknown, model: string): EmbeddingStore {
+    const store = new EmbeddingStore(model);
+    const data = raw as Partial<SerializedEmbeddings> | undefined;
+    if (!data || data.version !== EMBEDDINGS_VERSION || data.model !== model || !isRecord(data.files)) return store;
+    for (const [path, f] of Object.entries(data.files)) {
+      if (!isRecord(f) || !Array.isArray(f.chunks)) continue;
+      try {
+        store.files.set(path, { mtime: Number(f.mtime), chunks: f.chunks.map(c => ({ snippet: String(c.snippet ?? ""), vector: decodeVector(c.vector) })) });
+      } catch { /* corrupt entry: re-embedded on next use */ }
+    }
+    return store;
+  }
+}
+
+/** ---------- Run log ---------- */
+/** One model call as recorded in runs.jsonl: enough to see exactly what was sent and to send it again */
+interface RunLogEntry {
+  id: string;
+  rerunOf?: string;           // id of the entry this one replayed
+  started: string;            // ISO timestamp
+  canvas: string;
+  rootIds: string[];
+  nodeIds: string[];          // every node collected for the context
+  question: string;
+  template?: string;
+  output: AnswerOutput;
+  profileId: string;
+  profileName: string;
+  provider: ProviderKind;
+  baseURL: string;
+  params: { model: string; temperature: number; maxTokens: number; stream: boolean };
+  messages: ChatMessage[];
+  response?: string;
+  usage?: TokenUsage;
+  timings: { totalMs: number; firstTokenMs?: number; attempts?: number };
+  status: "ok" | "error" | "canceled";
+  error?: string;
+}
+
+const RUN_LOG_FILE = "runs.jsonl";
+// When the log would grow past this size it is moved to the archive file (replacing the previous one)
+const RUN_LOG_ARCHIVE_FILE = "runs.1.jsonl";
+const RUN_LOG_MAX_BYTES = 10 * 1024 * 1024;
+const ASK_HISTORY_VIEW = "ask-canvas-history";
+
+/** Parse the log, skipping lines that aren't entries (e.g. a write cut short) */
+function parseRunLog(raw: string): RunLogEntry[] {
+  const entries: RunLogEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    const e = parseJsonSafe(line);
+    if (isRecord(e) && typeof e.id === "string" && Array.isArray(e.messages)) entries.push(e as unknown as RunLogEntry);
+  }
+  return entries;
+}
+
+/** A run as plain text for diffing: parameters, each message, then the response or error */
+function runDiffText(e: RunLogEntry): string {
+  const parts = [
+    `model: ${e.params.model} (${e.provider}, ${e.baseURL})`,
+    `temperature: ${e.params.temperature}, max tokens: ${e.params.maxTokens}`,
+    ...e.messages.map(m => `## ${m.role}\n${m.content}`),
+    e.error ? `## error\n${e.error}` : `## response\n${e.response ?? ""}`,
+  ];
+  return parts.join("\n\n");
+}
+
+type DiffLine = { op: " " | "+" | "-"; line: string };
+
+/** Line diff (longest common subsequence); very large inputs fall back to "all removed, all added" */
+function diffLines(a: string, b: string): DiffLine[] {
+  const x = a.split("\n");
+  const y = b.split("\n");
+  if (x.length * y.length > 4e6) {
+    return [...x.map(line => ({ op: "-" as const, line })), ...y.map(line => ({ op: "+" as const, line }))];
+  }
+  // lcs[i][j] = LCS length of x[i..] and y[j..]
+  const lcs: Uint32Array[] = Array.from({ length: x.length + 1 }, () => new Uint32Array(y.length + 1));
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      lcs[i][j] = x[i] === y[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < x.length && j < y.length) {
+    if (x[i] === y[j]) { out.push({ op: " ", line: x[i] }); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) out.push({ op: "-", line: x[i++] });
+    else out.push({ op: "+", line: y[j++] });
+  }
+  while (i < x.length) out.push({ op: "-", line: x[i++] });
+  while (j < y.length) out.push({ op: "+", line: y[j++] });
+  return out;
+}
+
+/** ---------- Job queue ---------- */
+type AskJobStatus = "queued" | "running" | "done" | "failed" | "canceled";
+
+/** One Ask (or one call of a fan-out) waiting for, holding or done with a model slot */
+interface AskJob {
+  id: string;
+  canvas: string;
+  question: string;
+  status: AskJobStatus;
+  queuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+  // Canvas nodes the job added (revealed from the jobs panel); kept across retries
+  nodeIds: string[];
+  // Note a streamed answer is written into; a retry writes into it again
+  note?: string;
+  controller: AbortController;
+  // Released once the job is done (only failed or canceled jobs can be retried)
+  run?: (job: AskJob) => Promise<void>;
+  // Settles (never rejects) when the current attempt ends
+  settled: Promise<void>;
+}
+
+const ASK_JOBS_VIEW = "ask-canvas-jobs";
+// Finished, failed and canceled jobs kept for the jobs view; older ones are dropped
+const MAX_FINISHED_JOBS = 50;
+
+function isAbortError(err: unknown): boolean {
+  return !!err && typeof err === 'object' && (err as { name?: unknown }).name === 'AbortError';
+}
+
+/**
+ * First-in, first-out Ask jobs with a concurrency limit. Each job has its own AbortController, so
+ * jobs are canceled one by one; failed or canceled jobs can be retried. Only the latest
+ * MAX_FINISHED_JOBS finished jobs are kept. `onChange` fires whenever a job is added, starts,
+ * finishes or is removed.
+ */
+class AskJobQueue {
+  readonly jobs: AskJob[] = [];
+  private settle = new Map<string, () => void>();
+
+  constructor(private limit: number, private onChange: () => void) {}
+
+  get concurrency(): number { return this.limit; }
+  set concurrency(n: number) {
+    this.limit = n;
+    this.pump();
+    this.onChange();
+  }
+
+  get running(): number { return this.jobs.filter(j => j.status === "running").length; }
+  get queued(): number { return this.jobs.filter(j => j.status === "queued").length; }
+
+  add(canvas: string, question: string, run: (job: AskJob) => Promise<void>): AskJob {
+    const job = { id: uuid(), canvas, question, run, nodeIds: [] as string[] } as AskJob;
+    this.reset(job);
+    this.jobs.push(job);
+    this.pump();
+    this.onChange();
+    return job;
+  }
+
+  cancel(id: string) {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job) return;
+    this.stop(job);
+    this.onChange();
+  }
+
+  cancelAll() {
+    // Finishing a job can prune `jobs` in place, so walk a copy
+    for (const job of [...this.jobs]) this.stop(job);
+    this.onChange();
+  }
+
+  /** Queue a failed or canceled job again (same canvas, question and work) */
+  retry(id: string) {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job || !job.run || (job.status !== "failed" && job.status !== "canceled")) return;
+    this.reset(job);
+    // Move to the back of the queue
+    this.jobs.splice(this.jobs.indexOf(job), 1);
+    this.jobs.push(job);
+    this.pump();
+    this.onChange();
+  }
+
+  /** Forget finished, failed and canceled jobs */
+  clearFinished() {
+    const active = this.jobs.filter(j => j.status === "queued" || j.status === "running");
+    this.jobs.splice(0, this.jobs.length, ...active);
+    this.onChange();
+  }
+
+  /** A queued job is finished as canceled now; a running one finishes once its work sees the abort */
+  private stop(job: AskJob) {
+    if (job.status === "queued") this.finish(job, "canceled");
+    else if (job.status === "running") job.controller.abort();
+  }
+
+  private reset(job: AskJob) {
+    job.status = "queued";
+    job.queuedAt = Date.now();
+    job.startedAt = undefined;
+    job.finishedAt = undefined;
+    job.error = undefined;
+    job.controller = new AbortController();
+    job.settled = new Promise<void>(resolve => this.settle.set(job.id, resolve));
+  }
+
+  private finish(job: AskJob, status: AskJobStatus, error?: string) {
+    job.status = status;
+    job.error = error;
+    job.finishedAt = Date.now();
+    // A done job can't be retried, so its work (and the context it holds) can go
+    if (status === "done") job.run = undefined;
+    this.settle.get(job.id)?.();
+    this.settle.delete(job.id);
+    this.prune();
+  }
+
+  /** Drop the oldest finished jobs beyond MAX_FINISHED_JOBS */
+  private prune() {
+    const finished = this.jobs.filter(j => j.status !== "queued" && j.status !== "running");
+    const drop = new Set(finished
+      .sort((a, b) => (a.finishedAt ?? 0) - (b.finishedAt ?? 0))
+      .slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)));
+    if (drop.size > 0) this.jobs.splice(0, this.jobs.length, ...this.jobs.filter(j => !drop.has(j)));
+  }
+
+  private pump() {
+    while (this.running < Math.max(1, this.limit)) {
+      const job = this.jobs.find(j => j.status === "queued");
+      if (!job) return;
+      job.status = "running";
+      job.startedAt = Date.now();
+      this.start(job);
+    }
+  }
+
+  private async start(job: AskJob) {
+    try {
+      await job.run?.(job);
+      this.finish(job, job.controller.signal.aborted ? "canceled" : "done");
+    } catch (err) {
+      if (isAbortError(err)) this.finish(job, "canceled");
+      else this.finish(job, "failed", err instanceof Error ? err.message : String(err));
+    }
+    this.pump();
+    this.onChange();
+  }
+}
+
+/** ---------- Main Plugin ---------- */
+export default class CanvasAskPlugin extends Plugin {
+  settings: CanvasAskSettings;
+  private statusBarEl: HTMLElement | null = null;
+  private ribbonEl: HTMLElement | null = null;
+  // Asks waiting for or holding a model slot (shown in the Ask jobs view)
+  jobs!: AskJobQueue;
+  private saveSettingsDebounced!: ReturnType<typeof debounce>;
+  // Full-text index for Find Related Ideas (loaded lazily, kept current from vault events)
+  private relatedIndex: RelatedIndex | null = null;
+  private relatedIndexLoading: Promise<RelatedIndex> | null = null;
+  private relatedIndexQueue = new Set<string>();
+  private flushRelatedIndexQueueDebounced!: ReturnType<typeof debounce>;
+  // Chunk embeddings for semantic related search (loaded on first semantic search)
+  private embeddingStore: EmbeddingStore | null = null;
+  // Background run filling the embedding store (one at a time)
+  private embeddingSync: Promise<void> | null = null;
+  // Serializes note creation so collision checks and creates don't interleave
+  private noteCreateChain: Promise<unknown> = Promise.resolve();
+  // Serializes run log appends
+  private runLogChain: Promise<unknown> = Promise.resolve();
+  // Parsed run log, loaded on first read and kept in step with appends (null until loaded)
+  private runLogEntries: RunLogEntry[] | null = null;
+  // Serializes answer placement so concurrent jobs never place nodes against the same snapshot
+  private canvasWriteChain: Promise<unknown> = Promise.resolve();
+  // Answer templates already reported as missing {{answer}} (warned once per session)
+  private warnedAnswerTemplates = new Set<string>();
+  // Extracted PDF text by path, modification time and token limit
+  private pdfTextCache = new Map<string, Promise<{ text: string; pages: number; total: number }>>();
+
+  async onload() {
+    await this.loadSettings();
+    // Debounced saver to avoid writing on every keystroke
+    this.saveSettingsDebounced = debounce(() => { this.saveData(this.settings); }, 350);
+    this.flushRelatedIndexQueueDebounced = debounce(() => { this.flushRelatedIndexQueue(); }, 2000);
+    // Edits only touch the in-memory index; it is written out periodically and on unload rather than
+    // after every change, since the file holds the whole vault's term counts
+    this.registerInterval(window.setInterval(() => {
+      if (this.relatedIndex?.dirty) this.saveRelatedIndex();
+    }, RELATED_INDEX_SAVE_INTERVAL_MS));
+    this.jobs = new AskJobQueue(this.askConcurrency(), () => this.onJobsChanged());
+
+    this.addCommand({
+      id: "canvas-ask-upstream",
+      name: "Active Canvas Query",
+      callback: () => this.askWithUpstreamContext(),
+    });
+
+    // Conditionally build UI per settings
+    this.buildUiFromSettings();
+
+    // Removed: command to open a simple UI modal (no longer needed)
+
+    this.addCommand({
+      id: "canvas-ask-fanout",
+      name: "Fan-out Ask (several questions or models)",
+      callback: () => this.askFanOut(),
+    });
+
+    this.addCommand({
+      id: "canvas-export-chain",
+      name: "Export Chain",
+      callback: async () => this.exportChain(),
+    });
+
+    this.addSettingTab(new CanvasAskSettingsTab(this.app, this));
+
+    // Find related ideas: pick a node, search vault, show matches
+    this.addCommand({
+      id: "canvas-find-related",
+      name: "Find Related Ideas in Vault",
+      callback: () => this.findRelatedIdeas(),
+    });
+
+    // Canvas right-click menus: run on the clicked node, or on the whole selection
+    const workspaceEvents = this.app.workspace as unknown as {
+      on(name: "canvas:node-menu", cb: (menu: Menu, node: LiveCanvasNode & { canvas?: LiveCanvas }) => void): EventRef;
+      on(name: "canvas:selection-menu", cb: (menu: Menu, canvas: LiveCanvas) => void): EventRef;
+    };
+    this.registerEvent(workspaceEvents.on("canvas:node-menu", (menu, node) => {
+      // Right-clicking inside a multi-selection acts on all of it
+      const selection = node.canvas?.selection;
+      const ids = selection && selection.size > 1 && selection.has(node) ? Array.from(selection, n => n.id) : [node.id];
+      this.addCanvasMenuItems(menu, ids, ids.length === 1 ? node.getData?.().type : undefined);
+    }));
+    this.registerEvent(workspaceEvents.on("canvas:selection-menu", (menu, canvas) => {
+      const ids = Array.from(canvas.selection ?? [], n => n.id);
+      if (ids.length > 0) this.addCanvasMenuItems(menu, ids);
+    }));
+
+    // Keep per-canvas profile choices attached to their canvas
+    this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+      const id = this.settings.canvasProfiles[oldPath];
+      if (id == null) return;
+      delete this.settings.canvasProfiles[oldPath];
+      this.settings.canvasProfiles[file.path] = id;
+      this.scheduleSaveSettings();
+    }));
+    this.registerEvent(this.app.vault.on("delete", (file) => {
+      if (this.settings.canvasProfiles[file.path] == null) return;
+      delete this.settings.canvasProfiles[file.path];
+      this.scheduleSaveSettings();
+    }));
+
+    this.addCommand({
+      id: "canvas-rebuild-related-index",
+      name: "Rebuild Related Ideas index",
+      callback: () => this.rebuildRelatedIndex(),
+    });
+
+    this.addCommand({
+      id: "canvas-rebuild-embeddings",
+      name: "Rebuild semantic search embeddings",
+      callback: () => this.rebuildEmbeddings(),
+    });
+
+    this.registerView(ASK_HISTORY_VIEW, (leaf) => new AskHistoryView(leaf, this));
+    this.addCommand({
+      id: "canvas-open-ask-history",
+      name: "Open Ask history",
+      callback: () => this.openSideView(ASK_HISTORY_VIEW),
+    });
+
+    this.registerView(ASK_JOBS_VIEW, (leaf) => new AskJobsView(leaf, this));
+    this.addCommand({
+      id: "canvas-open-ask-jobs",
+      name: "Open Ask jobs",
+      callback: () => this.openSideView(ASK_JOBS_VIEW),
+    });
+    // Tick elapsed times in the jobs view while something runs
+    this.registerInterval(window.setInterval(() => {
+      if (this.jobs.running + this.jobs.queued === 0) return;
+      for (const leaf of this.app.workspace.getLeavesOfType(ASK_JOBS_VIEW)) {
+        if (leaf.view instanceof AskJobsView) leaf.view.tick();
+      }
+    }, 1000));
+
+    this.addCommand({
+      id: "canvas-create-prompt-templates",
+      name: "Create prompt template notes",
+      callback: () => this.createPromptTemplateFiles(),
+    });
+
+    this.addCommand({
+      id: "canvas-promote-text-card",
+      name: "Promote text card to note",
+      callback: () => this.promoteTextCard(),
+    });
+
+    // Keep the related-ideas index current (only once it has been loaded)
+    this.registerEvent(this.app.vault.on("modify", (file) => {
+      if (!this.relatedIndex || !(file instanceof TFile) || file.extension !== "md") return;
+      this.relatedIndexQueue.add(file.path);
+      this.flushRelatedIndexQueueDebounced();
+    }));
+    this.registerEvent(this.app.vault.on("create", (file) => {
+      if (!this.relatedIndex || !(file instanceof TFile) || file.extension !== "md") return;
+      this.relatedIndexQueue.add(file.path);
+      this.flushRelatedIndexQueueDebounced();
+    }));
+    this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+      if (!this.relatedIndex) return;
+      this.relatedIndex.rename(oldPath, file.path);
+      if (this.relatedIndexQueue.delete(oldPath)) this.relatedIndexQueue.add(file.path);
+    }));
+    this.registerEvent(this.app.vault.on("delete", (file) => {
+      if (!this.relatedIndex) return;
+      this.relatedIndex.remove(file.path);
+      this.relatedIndexQueue.delete(file.path);
+    }));
+    // Changed notes are re-embedded lazily (by mtime); renames and deletes are cheap to mirror now
+    this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+      this.embeddingStore?.rename(oldPath, file.path);
+    }));
+    this.registerEvent(this.app.vault.on("delete", (file) => {
+      this.embeddingStore?.remove(file.path);
+    }));
+    // Reflect Canvas availability in UI on view changes
+    this.registerEvent(this.app.workspace.on("active-leaf-change", () => this.updateUiEnabledState()));
+    // Initial state
+    this.updateUiEnabledState();
+  }
+
+  /** Plugin actions for a canvas context menu, applied to the given node ids */
+  private addCanvasMenuItems(menu: Menu, ids: string[], nodeType?: CanvasNodeType) {
+    menu.addSeparator();
+    menu.addItem(item => item
+      .setTitle(ids.length > 1 ? `Ask with context from ${ids.length} nodes` : "Ask with upstream context")
+      .setIcon("message-square")
+      .onClick(() => this.askWithUpstreamContext(ids)));
+    menu.addItem(item => item
+      .setTitle("Fan-out Ask")
+      .setIcon("git-fork")
+      .onClick(() => this.askFanOut(ids)));
+    if (ids.length === 1) {
+      menu.addItem(item => item
+        .setTitle("Find related ideas")
+        .setIcon("search")
+        .onClick(() => this.findRelatedIdeas(ids)));
+      menu.addItem(item => item
+        .setTitle("Export chain")
+        .setIcon("file-output")
+        .onClick(() => this.exportChain(ids)));
+    }
+    if (nodeType === "text") {
+      menu.addItem(item => item
+        .setTitle("Promote text card to note")
+        .setIcon("file-plus")
+        .onClick(() => this.promoteTextCard(ids)));
+    }
+  }
+
+  /** Load settings, migrating the pre-profile single-model fields into a "Default" profile */
+  private async loadSettings() {
+    const raw = ((await this.loadData()) ?? {}) as Partial<CanvasAskSettings> & LegacyModelSettings;
+    this.settings = Object.assign({}, DEFAULTS, raw);
+
+    if (Array.isArray(raw.profiles) && raw.profiles.length > 0) {
+      this.settings.profiles = raw.profiles.map(p => makeProfile(p));
+    } else {
+      this.settings.profiles = [makeProfile({
+        id: "default",
+        name: "Default",
+        provider: raw.provider,
+        baseURL: raw.openAIBaseURL,
+        apiKey: raw.openAIKey,
+        model: raw.openAIModel,
+        temperature: raw.temperature,
+        maxTokens: raw.maxTokens,
+        systemPrompt: raw.systemPrompt,
+      })];
+      this.settings.defaultProfileId = "default";
+    }
+    this.settings.canvasProfiles = { ...(raw.canvasProfiles ?? {}) };
+    // Don't write the legacy keys back
+    for (const k of LEGACY_MODEL_KEYS) delete (this.settings as unknown as Record<string, unknown>)[k];
+  }
+
+  /** Resolve a profile by id, falling back to the default profile, then the first one */
+  getProfile(id?: string | null): ModelProfile {
+    const { profiles, defaultProfileId } = this.settings;
+    return profiles.find(p => p.id === id)
+      ?? profiles.find(p => p.id === defaultProfileId)
+      ?? profiles[0]
+      ?? makeProfile({ id: "default", name: "Default" });
+  }
+
+  /** Queue a debounced settings save */
+  scheduleSaveSettings() {
+    this.saveSettingsDebounced();
+  }
+
+  /** Find related notes in the vault for a selected node */
+  private async findRelatedIdeas(nodeIds?: string[]) {
+    const canvasFile = this.app.workspace.getActiveFile();
+    if (!canvasFile || canvasFile.extension !== "canvas") {
+      new Notice("Open a .canvas file first.");
+      return;
+    }
+
+    const data = await this.readCanvas(canvasFile);
+    if (data.nodes.length === 0) {
+      new Notice("Canvas is empty.");
+      return;
+    }
+
+    const selected = await this.pickOneNode(data, canvasFile, nodeIds);
+    if (!selected) return;
+
+    const queryText = await this.getSearchTextFromNode(selected);
+    if (!queryText || !queryText.trim()) {
+      new Notice("No searchable text on the selected node.");
+      return;
+    }
+
+    const mode = this.settings.relatedSearchMode;
+    const tokens = this.tokenizeQuery(queryText);
+    if (tokens.size === 0 && mode !== "semantic") {
+      new Notice("Not enough signal in selection to search.");
+      return;
+    }
+
+    // Stage 1: metadata-only scoring to shortlist candidates
+    const markdownFiles = this.app.vault.getMarkdownFiles();
+    const metaRanked = this.rankByMetadata(markdownFiles, tokens);
+    const merged = new Map<string, { file: TFile; score: number; snippet?: string }>();
+    for (const r of metaRanked) merged.set(r.file.path, { file: r.file, score: r.score });
+
+    if (mode === "semantic") {
+      // Lexical stages are skipped entirely
+    } else if (this.settings.useRelatedIndex) {
+      // Stage 2 (indexed): BM25 over the full text of every note
+      const index = await this.ensureRelatedIndex();
+      for (const hit of index.search(tokens, 200)) {
+        const af = this.app.vault.getAbstractFileByPath(hit.path);
+        if (!(af instanceof TFile)) continue;
+        const m = merged.get(hit.path) || { file: af, score: 0 };
+        // BM25 term scores run ~0.3–2; scale so a strong body match weighs about like a title hit (5)
+        m.score += Math.round(hit.score * 5 * 10) / 10;
+        merged.set(hit.path, m);
+      }
+    } else {
+      // Stage 2: content scoring on shortlist (async, limited concurrency)
+      const shortlist = metaRanked.slice(0, 100).map(r => r.file);
+      const scored = await this.rankByContent(shortlist, tokens, 3000);
+      // Merge meta + content scores
+      for (const r of scored) {
+        const m = merged.get(r.file.path) || { file: r.file, score: 0 };
+        m.score += r.score;
+        if (r.snippet && !m.snippet) m.snippet = r.snippet;
+        merged.set(r.file.path, m);
+      }
+    }
+    // Exclude the canvas itself and (if applicable) the selected file-node itself
+    const selectedFilePath = (selected.type === "file")
+      ? normalizePath(resolveFilePath(selected.file))
+      : "";
+    const isCandidate = (f: TFile) => f.path !== canvasFile.path && f.path !== selectedFilePath;
+    const toShow = Math.max(3, Math.min(12, this.settings.topRelatedResults || DEFAULTS.topRelatedResults));
+    let ranked: Array<{ file: TFile; score: number; snippet?: string; scoreLabel?: string }> = Array.from(merged.values())
+      .filter(r => r.score > 0 && isCandidate(r.file))
+      .sort((a, b) => b.score - a.score);
+
+    if (mode !== "lexical") {
+      let semantic: Array<{ file: TFile; similarity: number; snippet: string }> | null = null;
+      try {
+        const hits = await this.rankBySemantic(queryText);
+        if (hits) semantic = hits.filter(r => isCandidate(r.file));
+        else new Notice("Notes are being embedded in the background; showing keyword results until that finishes.");
+      } catch (e) {
+        console.error('Semantic search failed', e);
+        new Notice(`Semantic search failed; showing keyword results: ${(e as Error)?.message ?? e}`);
+      }
+      if (semantic && mode === "semantic") {
+        ranked = semantic.map(r => ({ file: r.file, score: r.similarity, snippet: r.snippet, scoreLabel: r.similarity.toFixed(2) }));
+      } else if (semantic) {
+        ranked = fuseRankings(ranked, semantic);
+      }
+    }
+    const finalList = ranked.slice(0, toShow);
+
+    if (finalList.length === 0) {
+      new Notice("No related notes found.");
+      return;
+    }
+
+    // Indexed search doesn't read notes, so fetch snippets for the shown results only
+    const needSnippets = finalList.filter(r => !r.snippet).map(r => r.file);
+    if ((this.settings.useRelatedIndex || mode !== "lexical") && tokens.size > 0 && needSnippets.length > 0) {
+      const withSnippets = await this.rankByContent(needSnippets, tokens, Number.MAX_SAFE_INTEGER);
+      const byPath = new Map(withSnippets.map(r => [r.file.path, r.snippet] as const));
+      for (const r of finalList) r.snippet ??= byPath.get(r.file.path);
+    }
+
+    type Item = { file: TFile; label: string; score: number; scoreLabel?: string; snippet?: string };
+    const items: Item[] = finalList.map(r => ({
+      file: r.file,
+      score: r.score,
+      scoreLabel: r.scoreLabel,
+      snippet: r.snippet,
+      label: `${r.file.basename}  ·  ${r.file.path}`,
+    }));
+
+    const plugin = this;
+    const node = selected;
+    class RelatedModal extends FuzzySuggestModal<Item> {
+      constructor(app: App, public readonly queryPreview: string) { super(app); }
       getItems(): Item[] { return items; }
       getItemText(it: Item): string { return `${it.label}`; }
       onOpen(): void {
@@ -400,7 +1969,7 @@ export default class CanvasAskPlugin extends Plugin {
       renderSuggestion(match: FuzzyMatch<Item>, el: HTMLElement) {
         const top = el.createEl("div", { cls: "ask-canvas-suggestion-top" });
         const left = top.createEl("div", { text: match.item.file.basename, cls: "ask-canvas-suggestion-left" });
-        const right = top.createEl("div", { text: String(match.item.score), cls: "ask-canvas-suggestion-right" });
+        const right = top.createEl("div", { text: match.item.scoreLabel ?? String(Math.round(match.item.score * 10) / 10), cls: "ask-canvas-suggestion-right" });
         el.createEl("div", { text: match.item.file.path, cls: "mod-muted" });
         if (match.item.snippet) {
           el.createEl("div", { text: match.item.snippet.trim(), cls: "ask-canvas-suggestion-snippet" });
@@ -425,9 +1994,7 @@ export default class CanvasAskPlugin extends Plugin {
               await leaf.openFile(it.file);
               return;
             }
-            const d = await plugin.readCanvas(canvas);
-            const updated = plugin.applyResultAsChild(d, node, it.file.path, `Related: ${node.label ?? plugin.firstLineForNode(node)}`);
-            await plugin.writeCanvas(canvas, updated);
+            await plugin.addResultNode(canvas, node, { file: it.file.path }, `Related: ${node.label ?? plugin.firstLineForNode(node)}`);
             new Notice(`Added related → ${it.file.path}`);
           } catch (e) {
             console.error(e);
@@ -496,15 +2063,7 @@ export default class CanvasAskPlugin extends Plugin {
   }
 
   private tokenizeQuery(text: string): Set<string> {
-    const tokens = new Set<string>();
-    for (const raw of text.toLowerCase().split(/[^a-z0-9#+]+/)) {
-      const t = raw.trim();
-      if (!t) continue;
-      if (STOP_WORDS.has(t)) continue;
-      if (t.length < 3 && !t.startsWith('#')) continue; // allow short tags like #ai
-      tokens.add(t);
-    }
-    return tokens;
+    return new Set(searchTerms(text));
   }
 
   private rankByMetadata(files: TFile[], tokens: Set<string>): Array<{ file: TFile; score: number }> {
@@ -591,14 +2150,8 @@ export default class CanvasAskPlugin extends Plugin {
     return results;
   }
 
-  /** Core flow */
-  async askWithUpstreamContext() {
-    if (this.isBusy) {
-      // Triggering another run cancels the current one
-      this.cancelAsk("Canceled by user");
-      new Notice("Canceled current Ask.");
-      return;
-    }
+  /** Core flow: interactive steps here, then the model call runs as a job */
+  async askWithUpstreamContext(rootIds?: string[]) {
     const canvasFile = this.app.workspace.getActiveFile();
     if (!canvasFile || canvasFile.extension !== "canvas") {
       new Notice("Open a .canvas file first.");
@@ -617,101 +2170,950 @@ export default class CanvasAskPlugin extends Plugin {
       return;
     }
 
-    // 1) Pick the root node for context gathering
-    const root = await this.pickNode(data, canvasFile.path);
-    if (!root) return;
-
-    // 2) Prompt the user for a question (prefill from node, if possible)
-    const suggested = await this.getQuestionFromNode(root);
-    const question = await this.promptForQuestion(suggested ?? "");
-    if (!question) {
-      new Notice("No question provided.");
-      return;
-    }
+    // 1) Root node(s) for context gathering: the canvas selection, else the picker
+    const roots = await this.pickRoots(data, canvasFile, rootIds);
+    if (roots.length === 0) return;
+    const root = roots[0];
 
-    // 3) Collect upstream (multi-hop) context from the chosen root
+    // 2) Collect upstream (multi-hop) context from the chosen root(s)
     const rawHopLimit = Number(this.settings.contextHopLimit);
     const hopLimit = Math.max(0, Math.min(12, Number.isFinite(rawHopLimit) ? Math.round(rawHopLimit) : DEFAULTS.contextHopLimit));
-    const upstreamInfo = this.collectPredecessorsUpToDepth(data, root.id, hopLimit);
+    const upstreamInfo = this.collectUpstreamFromRoots(data, roots, hopLimit);
     const upstream = upstreamInfo.nodes;
 
-    // Include the selected node itself (so a selected text card's content is part of the context)
-    const nodesForContext: CanvasNode[] = [root, ...upstream];
-
-    const context = await this.materializeContext(nodesForContext);
+    // Include the selected node(s) themselves (so a selected text card's content is part of the context),
+    // then what groups and embedded canvases among them contain
+    const expanded = await this.expandContainers(canvasFile.path, data, [...roots, ...upstream], upstreamInfo);
+    const nodesForContext = expanded.nodes;
+
+    // Packing depends on the profile's budget and image support and, for trimmed notes, on the question,
+    // so memoize on those three: the preview and the send (and profiles alike in both) share the work.
+    // The preview has no question yet, so trimmed notes there are cut from the top.
+    const contextByBudget = new Map<string, Promise<MaterializedContext>>();
+    const contextFor = (p: ModelProfile, question = "") => {
+      const key = `${p.contextTokenBudget}:${p.vision}:${question}`;
+      let pending = contextByBudget.get(key);
+      if (!pending) {
+        pending = this.buildContext(data, nodesForContext, expanded.depthById, p, {}, expanded.branchById, question);
+        contextByBudget.set(key, pending);
+      }
+      return pending;
+    };
 
-    // 4) Call OpenAI
-    if (!this.settings.openAIKey) {
-      new Notice("Set your OpenAI API key in settings.");
+    // 3) Prompt the user for a question (prefill from node, if possible)
+    const suggested = await this.getQuestionFromNode(root);
+    const initialProfileId = this.settings.canvasProfiles[canvasFile.path] ?? this.settings.defaultProfileId;
+    const templates = await this.loadPromptTemplates();
+    // Per-node-type preset: the first template that lists the node's type
+    const preset = roots.length === 1 ? templates.find(t => t.nodeTypes.includes(root.type)) : undefined;
+    const asked = await this.promptForQuestion(suggested ?? "", initialProfileId, async (id) => (await contextFor(this.getProfile(id))).budget, templates, preset);
+    if (!asked) {
+      new Notice("No question provided.");
       return;
     }
+    const { question, template } = asked;
+    const profile = this.getProfile(asked.profileId);
+    // Remember the choice as this canvas's default profile
+    if (this.settings.canvasProfiles[canvasFile.path] !== profile.id) {
+      this.settings.canvasProfiles[canvasFile.path] = profile.id;
+      this.scheduleSaveSettings();
+    }
 
-    let answer: string | undefined;
-    // Create an abort controller for this run
-    this.askAbortController?.abort();
-    this.askAbortController = new AbortController();
-    this.setBusy(true);
-    try {
-      answer = await this.callOpenAI(question, context, this.askAbortController.signal);
-    } catch (err) {
-          if (err && typeof err === 'object' && (err as { name?: unknown }).name === 'AbortError') {
-            // Swallow aborts as cancelations
-            console.warn('Ask canceled');
-            new Notice("Ask canceled.");
-          } else {
-            console.error(err);
-        new Notice("OpenAI request failed. See console for details.");
+    let context = await contextFor(profile, question);
+    if (this.settings.reviewContextBeforeSending) {
+      const reviewed = await this.reviewContext(
+        question,
+        profile,
+        context,
+        (overrides) => this.buildContext(data, nodesForContext, expanded.depthById, profile, overrides, expanded.branchById, question),
+        template
+      );
+      if (!reviewed) {
+        new Notice("Ask canceled.");
+        return;
+      }
+      context = reviewed.context;
+    }
+
+    // 4) Call the model
+    const provider = getProvider(profile.provider);
+    if (provider.requiresKey && !profile.apiKey) {
+      new Notice(`Set the API key for profile "${profile.name}" in settings.`);
+      return;
+    }
+
+    // Text cards and expanded cards are written once, so they don't stream
+    const stream = this.settings.streamResponses && asked.output === "note";
+    const finalContext = context;
+    this.enqueueAsk(canvasFile.path, question, async (job) => {
+      if (stream) {
+        await this.askStreaming(canvasFile, roots, question, finalContext, profile, job, template);
+        return;
+      }
+      const answer = await this.loggedChat(
+        { canvasFile, roots, question, context: finalContext, profile, output: asked.output, template, stream: false },
+        () => this.callOpenAI(question, finalContext, profile, job.controller.signal, asked.output, template)
+      );
+
+      // 5) Put the answer on the canvas as a CHILD of the selected node(s)
+      const placed = await this.placeAnswer(canvasFile, roots, question, question, answer, finalContext, profile, asked.output, template);
+      if (!placed) {
+        new Notice("Answer not saved.");
+        return;
+      }
+      job.nodeIds.push(...placed.nodeIds);
+      const below = roots.length > 1 ? `${roots.length} selected nodes` : "selected node";
+      new Notice(placed.note
+        ? `Answer saved → ${placed.note.path} • Added as CHILD (downstream) of the ${below}.`
+        : `Answer added as ${placed.summary} below the ${below}.`);
+    });
+  }
+
+  /**
+   * Add a finished answer below the root(s) in the chosen output form. Expanded cards fall back to a
+   * single note when the response isn't valid card JSON. Null when nothing was added (note save canceled).
+   */
+  private async placeAnswer(
+    canvasFile: TFile,
+    roots: CanvasNode[],
+    question: string,
+    label: string,
+    answer: ChatResult,
+    context: MaterializedContext,
+    profile: ModelProfile,
+    output: AnswerOutput,
+    template?: PromptTemplate
+  ): Promise<{ summary: string; nodeIds: string[]; note?: TFile } | null> {
+    const [root, ...extraParents] = roots;
+    if (output === "expand") {
+      const cards = parseExpandedCards(answer.text);
+      if (cards) {
+        const nodeIds = await this.addCardNodes(canvasFile, root, cards, extraParents);
+        return { summary: `${cards.length} card${cards.length === 1 ? "" : "s"}`, nodeIds };
+      }
+      console.warn("Expand into cards: response was not valid card JSON; saving it as a note instead", answer.text);
+      new Notice("The model didn't return valid cards; saving the answer as a note instead.");
+    }
+    if (output === "text") {
+      const nodeIds = await this.addResultNode(canvasFile, root, { text: answerCardText(answer.text, context.sourcesMarkdown) }, label, extraParents);
+      return { summary: "a text card", nodeIds };
+    }
+
+    const meta = await this.answerNoteMeta(canvasFile, roots, question, context, profile, template);
+    meta.usage = answer.usage;
+    const outFile = await this.saveAnswerNote(canvasFile, answer.text, context, meta);
+    if (!outFile) return null;
+    // Add a child file node connected from the root(s)
+    const nodeIds = await this.addResultNode(canvasFile, root, { file: outFile.path }, label, extraParents);
+    return { summary: outFile.path, nodeIds, note: outFile };
+  }
+
+  /**
+   * Fan-out Ask: the same upstream context asked with several questions and/or several model profiles.
+   * Each call is its own job (canceled or retried separately); each answer becomes a sibling child of
+   * the selected node, labeled with its question or profile.
+   */
+  async askFanOut(rootIds?: string[]) {
+    const canvasFile = this.app.workspace.getActiveFile();
+    if (!canvasFile || canvasFile.extension !== "canvas") {
+      new Notice("Open a .canvas file first.");
+      return;
+    }
+    if (!this.settings.allowApiCalls) {
+      new Notice("LLM API calls are disabled. Enable in settings to send canvas context to the model.");
+      return;
+    }
+
+    const data = await this.readCanvas(canvasFile);
+    if (data.nodes.length === 0) {
+      new Notice("Canvas is empty.");
+      return;
+    }
+
+    const roots = await this.pickRoots(data, canvasFile, rootIds);
+    if (roots.length === 0) return;
+    const root = roots[0];
+
+    const rawHopLimit = Number(this.settings.contextHopLimit);
+    const hopLimit = Math.max(0, Math.min(12, Number.isFinite(rawHopLimit) ? Math.round(rawHopLimit) : DEFAULTS.contextHopLimit));
+    const upstreamInfo = this.collectUpstreamFromRoots(data, roots, hopLimit);
+    const expanded = await this.expandContainers(canvasFile.path, data, [...roots, ...upstreamInfo.nodes], upstreamInfo);
+    const nodesForContext = expanded.nodes;
+
+    const suggested = await this.getQuestionFromNode(root);
+    const initialProfileId = this.settings.canvasProfiles[canvasFile.path] ?? this.settings.defaultProfileId;
+    const plan = await this.promptForFanOut(suggested ?? "", initialProfileId);
+    if (!plan) return;
+    const profiles = plan.profileIds.map(id => this.getProfile(id));
+
+    const missingKey = profiles.find(p => getProvider(p.provider).requiresKey && !p.apiKey);
+    if (missingKey) {
+      new Notice(`Set the API key for profile "${missingKey.name}" in settings.`);
+      return;
+    }
+
+    // Review once (with the first profile's budget) and apply the same choices to every call
+    let overrides: ContextOverrides = {};
+    if (this.settings.reviewContextBeforeSending) {
+      const first = profiles[0];
+      const recompute = (o: ContextOverrides) => this.buildContext(data, nodesForContext, expanded.depthById, first, o, expanded.branchById, plan.questions[0]);
+      const reviewed = await this.reviewContext(plan.questions[0], first, await recompute({}), recompute);
+      if (!reviewed) {
+        new Notice("Ask canceled.");
+        return;
+      }
+      overrides = reviewed.overrides;
+    }
+    const contextByBudget = new Map<string, Promise<MaterializedContext>>();
+    const contextFor = (p: ModelProfile, question: string) => {
+      const key = `${p.contextTokenBudget}:${p.vision}:${question}`;
+      let pending = contextByBudget.get(key);
+      if (!pending) {
+        pending = this.buildContext(data, nodesForContext, expanded.depthById, p, overrides, expanded.branchById, question);
+        contextByBudget.set(key, pending);
+      }
+      return pending;
+    };
+
+    // Label each answer by what varies across the batch
+    const runs: Array<{ question: string; profile: ModelProfile; label: string }> = [];
+    for (const question of plan.questions) {
+      for (const profile of profiles) {
+        const modelLabel = `${profile.name} (${profile.model})`;
+        const label = profiles.length > 1 && plan.questions.length > 1
+          ? `${modelLabel}: ${question}`
+          : profiles.length > 1 ? modelLabel : question;
+        runs.push({ question, profile, label });
       }
-    } finally {
-      this.setBusy(false);
-      this.askAbortController = null;
     }
-    if (answer == null) return;
 
-    // 5) Create the note and add it as a CHILD of the selected node
+    // One job per call; the summary counts each job's first attempt
+    const jobs = runs.map(run => this.jobs.add(canvasFile.path, run.label, async (job) => {
+      const context = await contextFor(run.profile, run.question);
+      const answer = await this.loggedChat(
+        { canvasFile, roots, question: run.question, context, profile: run.profile, output: plan.output, stream: false },
+        () => this.callOpenAI(run.question, context, run.profile, job.controller.signal, plan.output)
+      );
+      const placed = await this.placeAnswer(canvasFile, roots, run.question, run.label, answer, context, run.profile, plan.output);
+      if (placed) job.nodeIds.push(...placed.nodeIds);
+    }));
+    new Notice(`Fan-out Ask: ${jobs.length} jobs queued.`);
+    await Promise.all(jobs.map(j => j.settled));
+
+    const saved = jobs.filter(j => j.status === "done" && j.nodeIds.length > 0).length;
+    const failed = jobs.filter(j => j.status === "failed").length;
+    const canceled = jobs.filter(j => j.status === "canceled").length;
+    const failures = failed ? ` ${failed} failed (see the Ask jobs view).` : "";
+    const cancels = canceled ? ` ${canceled} canceled.` : "";
+    new Notice(`Fan-out Ask: ${saved} of ${runs.length} answers added below the selected node.${failures}${cancels}`);
+  }
+
+  /** Write an answer note, named after its H1 (fallback: the question), into the output folder */
+  private async saveAnswerNote(canvasFile: TFile, answer: string, context: MaterializedContext, meta: AnswerNoteMeta): Promise<TFile | null> {
     const outFolder = this.settings.outputFolder || (canvasFile.parent?.path ?? "");
     // Use the generated note's H1 as filename if present; fallback to the question
-    const h1 = answer.match(/^\s*#\s+(.+?)\s*$/m)?.[1] ?? firstLine(question);
+    const h1 = answer.match(/^\s*#\s+(.+?)\s*$/m)?.[1] ?? firstLine(meta.question);
     const filename = sanitizeFilename(h1) + ".md";
     const targetPath = normalizePath((outFolder ? outFolder + "/" : "") + filename);
-    const body =
-`${answer}
+    const body = this.buildAnswerBody(await this.loadAnswerTemplate(), answer, context.sourcesMarkdown, meta);
+    return await this.createNote(targetPath, body);
+  }
 
----
+  /** Run details for the answer note; `usage` is filled in once the model has answered */
+  private async answerNoteMeta(canvasFile: TFile, roots: CanvasNode[], question: string, context: MaterializedContext, profile: ModelProfile, template?: PromptTemplate): Promise<AnswerNoteMeta> {
+    return {
+      question,
+      profile,
+      canvasPath: canvasFile.path,
+      parentId: roots.map(r => r.id).join(", "),
+      parentLabel: roots.map(r => getNodeLabel(r)).join(", "),
+      created: new Date(),
+      // Identical prompts (same system prompt, template, context and question) hash the same
+      promptHash: await sha256Hex(JSON.stringify(this.buildMessages(question, context, profile, "note", template))),
+      template: template?.name,
+    };
+  }
 
-### Sources (selected + upstream)
-${context.sourcesMarkdown}
-`;
-    const outFile = await this.createOrOverwrite(targetPath, body);
+  /** The answer template from settings, or the built-in one if unset or missing */
+  private async loadAnswerTemplate(): Promise<string> {
+    const raw = this.settings.answerTemplatePath.trim();
+    if (!raw) return DEFAULT_ANSWER_TEMPLATE;
+    const path = normalizePath(raw.endsWith(".md") ? raw : `${raw}.md`);
+    const af = this.app.vault.getAbstractFileByPath(path);
+    if (af instanceof TFile) {
+      const template = await this.app.vault.cachedRead(af);
+      if (!hasAnswerPlaceholder(template) && !this.warnedAnswerTemplates.has(path)) {
+        this.warnedAnswerTemplates.add(path);
+        new Notice(`Answer template ${path} has no {{answer}} placeholder; the answer is added at the end.`);
+      }
+      return template;
+    }
+    console.warn(`Answer template not found: ${path}; using the built-in layout`);
+    return DEFAULT_ANSWER_TEMPLATE;
+  }
+
+  /** Prompt templates from the template folder (sorted by name), or the built-ins if it has none */
+  private async loadPromptTemplates(): Promise<PromptTemplate[]> {
+    const folder = this.settings.promptTemplateFolder.trim();
+    const af = folder ? this.app.vault.getAbstractFileByPath(normalizePath(folder)) : null;
+    if (!(af instanceof TFolder)) return BUILTIN_PROMPT_TEMPLATES;
+    const files = af.children.filter((f): f is TFile => f instanceof TFile && f.extension === "md");
+    const templates = await Promise.all(files.map(async f => parsePromptTemplate(f.basename, await this.app.vault.cachedRead(f), f.path)));
+    const usable = templates.filter(t => t.prompt.trim());
+    return usable.length > 0 ? usable.sort((a, b) => a.name.localeCompare(b.name)) : BUILTIN_PROMPT_TEMPLATES;
+  }
+
+  /** Write the built-in prompt templates into the template folder as editable notes (existing ones are kept) */
+  async createPromptTemplateFiles() {
+    const folder = this.settings.promptTemplateFolder.trim();
+    if (!folder) {
+      new Notice("Set a prompt template folder in settings first.");
+      return;
+    }
+    const dir = normalizePath(folder);
+    if (!this.app.vault.getAbstractFileByPath(dir)) await this.app.vault.createFolder(dir);
+    let created = 0;
+    for (const t of BUILTIN_PROMPT_TEMPLATES) {
+      // Built-in names are valid filenames (the file name is the template name)
+      const path = normalizePath(`${dir}/${t.name}.md`);
+      if (this.app.vault.getAbstractFileByPath(path)) continue;
+      await this.app.vault.create(path, promptTemplateMarkdown(t));
+      created++;
+    }
+    new Notice(created ? `Created ${created} prompt templates in ${dir}.` : `All built-in prompt templates already exist in ${dir}.`);
+  }
+
+  /**
+   * Streaming variant of steps 4–5: the answer note and its canvas node are created up front,
+   * then the note is rewritten (throttled) as tokens arrive. On cancel or failure the partial
+   * answer is kept and marked as incomplete, and the error is rethrown for the job.
+   */
+  private async askStreaming(
+    canvasFile: TFile,
+    roots: CanvasNode[],
+    question: string,
+    context: MaterializedContext,
+    profile: ModelProfile,
+    job: AskJob,
+    template?: PromptTemplate
+  ) {
+    // The H1 isn't known yet, so the filename comes from the question
+    const outFolder = this.settings.outputFolder || (canvasFile.parent?.path ?? "");
+    const filename = sanitizeFilename(firstLine(question)) + ".md";
+    const targetPath = normalizePath((outFolder ? outFolder + "/" : "") + filename);
+    // A retry writes into the note (and node) of the earlier attempt, if they are still there
+    const previous = job.note ? this.app.vault.getAbstractFileByPath(job.note) : null;
+    let outFile: TFile;
+    if (previous instanceof TFile) {
+      outFile = previous;
+      await this.app.vault.modify(outFile, "_Generating…_\n");
+    } else {
+      const created = await this.createNote(targetPath, "_Generating…_\n");
+      if (!created) return;
+      outFile = created;
+      job.note = outFile.path;
+    }
+    const answerTemplate = await this.loadAnswerTemplate();
+    const meta = await this.answerNoteMeta(canvasFile, roots, question, context, profile, template);
+
+    const onCanvas = new Set((await this.readCanvas(canvasFile)).nodes.map(n => n.id));
+    if (!job.nodeIds.some(id => onCanvas.has(id))) {
+      job.nodeIds = await this.addResultNode(canvasFile, roots[0], { file: outFile.path }, question, roots.slice(1));
+    }
+
+    let partial = "";
+    // Serialize note writes so a slow modify never lands after a newer one
+    let writeChain: Promise<void> = Promise.resolve();
+    const writeNote = (body: string) => {
+      writeChain = writeChain
+        .then(() => this.app.vault.modify(outFile, body))
+        .catch(e => console.error('Failed to update streaming answer', e));
+      return writeChain;
+    };
+    const flush = throttle(() => { writeNote(this.buildAnswerBody(answerTemplate, partial, context.sourcesMarkdown, meta, "streaming")); }, 400);
+
+    let status: "complete" | "incomplete" = "complete";
+    let failure: unknown = null;
+    try {
+      const signal = job.controller.signal;
+      const result = await this.loggedChat(
+        { canvasFile, roots, question, context, profile, output: "note", template, stream: true },
+        (onFirstToken) => this.callOpenAIStream(question, context, profile, (chunk) => {
+          onFirstToken();
+          partial += chunk;
+          flush();
+        }, signal, template)
+      );
+      meta.usage = result.usage;
+    } catch (err) {
+      status = "incomplete";
+      failure = err;
+    }
+
+    flush.cancel();
+    await writeNote(this.buildAnswerBody(answerTemplate, partial.trim(), context.sourcesMarkdown, meta, status));
+    if (failure) throw failure;
+    new Notice(`Answer saved → ${outFile.path} • Added as CHILD (downstream) of the ${roots.length > 1 ? `${roots.length} selected nodes` : "selected node"}.`);
+  }
 
-    // Update canvas by adding a child file node connected from the root
-    const updated = this.applyResultAsChild(data, root, outFile.path, question);
-    await this.writeCanvas(canvasFile, updated);
-    new Notice(`Answer saved → ${outFile.path} • Added as CHILD (downstream) of the selected node.`);
+  /** Compose the answer note from the template: progress marker + answer, sources, run metadata */
+  private buildAnswerBody(
+    template: string,
+    answer: string,
+    sourcesMarkdown: string,
+    meta: AnswerNoteMeta,
+    status: "complete" | "streaming" | "incomplete" = "complete"
+  ): string {
+    let marker = "";
+    if (status === "streaming") {
+      marker = "> [!info] Generating…\n\n";
+    } else if (status === "incomplete") {
+      marker = "> [!warning] Incomplete answer\n> Generation stopped before the model finished. The text below is partial.\n\n";
+    }
+    const body = renderAnswerTemplate(template, `${marker}${answer}`, sourcesMarkdown, meta);
+    return this.settings.answerFrontmatter ? withAnswerFrontmatter(body, meta) : body;
   }
 
   onunload() {
-    // Abort any in-flight request on unload
-    this.cancelAsk("Plugin unloaded");
+    // Abort running and queued Asks on unload
+    this.jobs?.cancelAll();
+    // Persist pending index changes (best effort; unload can't wait)
+    if (this.relatedIndex?.dirty) this.saveRelatedIndex();
+    if (this.embeddingStore?.dirty) this.saveEmbeddingStore();
+  }
+
+  /** Location of the persisted related-ideas index inside the plugin folder */
+  private relatedIndexPath(): string {
+    const dir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    return normalizePath(`${dir}/related-index.json`);
+  }
+
+  /** Load (once, on the first Find Related Ideas) and bring the index up to date with the vault */
+  private ensureRelatedIndex(): Promise<RelatedIndex> {
+    if (this.relatedIndex) return Promise.resolve(this.relatedIndex);
+    if (!this.relatedIndexLoading) {
+      this.relatedIndexLoading = (async () => {
+        let index = new RelatedIndex();
+        try {
+          const path = this.relatedIndexPath();
+          if (await this.app.vault.adapter.exists(path)) {
+            index = RelatedIndex.fromJSON(JSON.parse(await this.app.vault.adapter.read(path)));
+          }
+        } catch (e) {
+          console.warn('Related index unreadable; rebuilding', e);
+        }
+        await this.syncRelatedIndex(index);
+        this.relatedIndex = index;
+        return index;
+      })().finally(() => { this.relatedIndexLoading = null; });
+    }
+    return this.relatedIndexLoading;
+  }
+
+  /** Index new or changed notes and drop deleted ones, then persist if anything changed */
+  private async syncRelatedIndex(index: RelatedIndex) {
+    const files = this.app.vault.getMarkdownFiles();
+    const live = new Set(files.map(f => f.path));
+    for (const path of index.paths()) if (!live.has(path)) index.remove(path);
+
+    const stale = files.filter(f => !index.isFresh(f.path, f.stat.mtime));
+    // First builds can take a while on large vaults; say so
+    const notice = stale.length > 500 ? new Notice(`Indexing ${stale.length} notes for Find Related Ideas…`, 0) : null;
+    try {
+      const tasks = stale.map(f => async () => {
+        try {
+          index.upsert(f.path, f.stat.mtime, await this.app.vault.cachedRead(f));
+        } catch { /* unreadable: skip */ }
+      });
+      await runWithConcurrency(tasks, getConcurrency(8));
+    } finally {
+      notice?.hide();
+    }
+    if (index.dirty) await this.saveRelatedIndex(index);
+  }
+
+  /** Re-index notes touched since the last flush */
+  private async flushRelatedIndexQueue() {
+    const index = this.relatedIndex;
+    if (!index) return;
+    const paths = Array.from(this.relatedIndexQueue);
+    this.relatedIndexQueue.clear();
+    for (const path of paths) {
+      const af = this.app.vault.getAbstractFileByPath(path);
+      if (!(af instanceof TFile)) continue;
+      try {
+        index.upsert(af.path, af.stat.mtime, await this.app.vault.cachedRead(af));
+      } catch { /* unreadable: skip */ }
+    }
+  }
+
+  private async saveRelatedIndex(index: RelatedIndex | null = this.relatedIndex) {
+    if (!index || !index.dirty) return;
+    index.dirty = false;
+    try {
+      await this.app.vault.adapter.write(this.relatedIndexPath(), JSON.stringify(index.toJSON()));
+    } catch (e) {
+      index.dirty = true;
+      console.error('Failed to save related index', e);
+    }
+  }
+
+  /** Command: discard the index and build it again from every note */
+  async rebuildRelatedIndex() {
+    if (this.relatedIndexLoading) await this.relatedIndexLoading.catch(() => null);
+    const started = Date.now();
+    const notice = new Notice("Rebuilding Related Ideas index…", 0);
+    try {
+      const index = new RelatedIndex();
+      this.relatedIndexQueue.clear();
+      await this.syncRelatedIndex(index);
+      this.relatedIndex = index;
+      new Notice(`Related Ideas index rebuilt: ${index.size} notes in ${((Date.now() - started) / 1000).toFixed(1)}s.`);
+    } catch (e) {
+      console.error(e);
+      new Notice("Failed to rebuild the index. See console for details.");
+    } finally {
+      notice.hide();
+    }
+  }
+
+  private embeddingsPath(): string {
+    const dir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    return normalizePath(`${dir}/embeddings.json`);
+  }
+
+  /** Load the embedding cache (once per model); a model change starts a fresh cache */
+  private async loadEmbeddingStore(): Promise<EmbeddingStore> {
+    const model = this.settings.embeddingModel.trim();
+    if (this.embeddingStore?.model === model) return this.embeddingStore;
+    let store = new EmbeddingStore(model);
+    try {
+      const path = this.embeddingsPath();
+      if (await this.app.vault.adapter.exists(path)) {
+        store = EmbeddingStore.fromJSON(JSON.parse(await this.app.vault.adapter.read(path)), model);
+      }
+    } catch (e) {
+      console.warn('Embedding cache unreadable; re-embedding', e);
+    }
+    this.embeddingStore = store;
+    return store;
+  }
+
+  private async saveEmbeddingStore(store: EmbeddingStore | null = this.embeddingStore) {
+    if (!store || !store.dirty) return;
+    store.dirty = false;
+    try {
+      await this.app.vault.adapter.write(this.embeddingsPath(), JSON.stringify(store.toJSON()));
+    } catch (e) {
+      store.dirty = true;
+      console.error('Failed to save embeddings', e);
+    }
+  }
+
+  private runLogPath(file = RUN_LOG_FILE): string {
+    const dir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    return normalizePath(`${dir}/${file}`);
+  }
+
+  /**
+   * Append one entry to the run log (one JSON object per line) and refresh open history views.
+   * A log that would pass RUN_LOG_MAX_BYTES is archived first and a new one started.
+   */
+  private appendRunLog(entry: RunLogEntry): Promise<void> {
+    if (!this.settings.logRuns) return Promise.resolve();
+    const run = this.runLogChain.then(async () => {
+      const { adapter } = this.app.vault;
+      const path = this.runLogPath();
+      const line = JSON.stringify(entry) + "\n";
+      const stat = await adapter.stat(path);
+      if (stat && stat.size + line.length > RUN_LOG_MAX_BYTES) {
+        const archive = this.runLogPath(RUN_LOG_ARCHIVE_FILE);
+        if (await adapter.exists(archive)) await adapter.remove(archive);
+        await adapter.rename(path, archive);
+        if (this.runLogEntries) this.runLogEntries = [];
+      }
+      if (await adapter.exists(path)) await adapter.append(path, line);
+      else await adapter.write(path, line);
+      this.runLogEntries?.push(entry);
+      this.refreshHistoryViews();
+    }).catch(e => console.error('Failed to write run log', e));
+    this.runLogChain = run;
+    return run;
+  }
+
+  /** All logged runs, oldest first. Parsed once; `reload` reads the file again. */
+  async readRunLog(reload = false): Promise<RunLogEntry[]> {
+    if (this.runLogEntries && !reload) return this.runLogEntries;
+    // Queued behind pending appends so none is missed or counted twice
+    const run = this.runLogChain.then(async () => {
+      const path = this.runLogPath();
+      this.runLogEntries = (await this.app.vault.adapter.exists(path)) ? parseRunLog(await this.app.vault.adapter.read(path)) : [];
+    });
+    this.runLogChain = run.catch(e => console.error('Failed to read run log', e));
+    await run;
+    return this.runLogEntries ?? [];
+  }
+
+  async clearRunLog() {
+    await this.runLogChain;
+    for (const file of [RUN_LOG_FILE, RUN_LOG_ARCHIVE_FILE]) {
+      const path = this.runLogPath(file);
+      if (await this.app.vault.adapter.exists(path)) await this.app.vault.adapter.remove(path);
+    }
+    this.runLogEntries = [];
+    this.refreshHistoryViews();
+    new Notice("Run log cleared.");
+  }
+
+  private refreshHistoryViews() {
+    for (const leaf of this.app.workspace.getLeavesOfType(ASK_HISTORY_VIEW)) {
+      if (leaf.view instanceof AskHistoryView) leaf.view.refresh();
+    }
+  }
+
+  /**
+   * Run one model call and record it in the run log, whatever the outcome. `call` gets a callback
+   * to mark the first streamed token (for time-to-first-token).
+   */
+  private async loggedChat(
+    run: { canvasFile: TFile; roots: CanvasNode[]; question: string; context: MaterializedContext; profile: ModelProfile; output: AnswerOutput; template?: PromptTemplate; stream: boolean },
+    call: (onFirstToken: () => void) => Promise<ChatResult>
+  ): Promise<ChatResult> {
+    const { profile } = run;
+    const started = Date.now();
+    let firstTokenMs: number | undefined;
+    const entry: RunLogEntry = {
+      id: uuid(),
+      started: new Date(started).toISOString(),
+      canvas: run.canvasFile.path,
+      rootIds: run.roots.map(r => r.id),
+      nodeIds: run.context.budget.items.map(it => it.id),
+      question: run.question,
+      template: run.template?.name,
+      output: run.output,
+      profileId: profile.id,
+      profileName: profile.name,
+      provider: profile.provider,
+      baseURL: profile.baseURL || getProvider(profile.provider).defaultBaseURL,
+      params: { model: profile.model, temperature: profile.temperature, maxTokens: profile.maxTokens, stream: run.stream },
+      // Images are logged by path only; a re-run reads them from the vault again
+      messages: this.buildMessages(run.question, run.context, profile, run.output, run.template)
+        .map(m => m.images ? { ...m, images: m.images.map(img => ({ ...img, data: "" })) } : m),
+      timings: { totalMs: 0 },
+      status: "ok",
+    };
+    try {
+      const result = await call(() => { if (firstTokenMs == null) firstTokenMs = Date.now() - started; });
+      entry.response = result.text;
+      entry.usage = result.usage;
+      entry.timings.attempts = result.attempts;
+      return result;
+    } catch (err) {
+      const aborted = !!err && typeof err === 'object' && (err as { name?: unknown }).name === 'AbortError';
+      entry.status = aborted ? "canceled" : "error";
+      entry.error = err instanceof Error ? err.message : String(err);
+      throw err;
+    } finally {
+      entry.timings.totalMs = Date.now() - started;
+      entry.timings.firstTokenMs = firstTokenMs;
+      this.appendRunLog(entry);
+    }
+  }
+
+  /**
+   * Send a logged run's exact messages again with its logged model parameters (the API key comes
+   * from the profile it was run with). The new run is logged with `rerunOf` pointing at the original.
+   */
+  async rerunFromLog(original: RunLogEntry): Promise<RunLogEntry> {
+    if (!this.settings.allowApiCalls) {
+      throw new Error("LLM API calls are disabled in settings.");
+    }
+    const profile = this.settings.profiles.find(p => p.id === original.profileId);
+    if (!profile) throw new Error(`Profile "${original.profileName}" no longer exists.`);
+    const messages: ChatMessage[] = [];
+    for (const m of original.messages) {
+      if (!m.images) { messages.push(m); continue; }
+      const images: ChatImage[] = [];
+      for (const img of m.images) {
+        const af = this.app.vault.getAbstractFileByPath(img.path);
+        if (!(af instanceof TFile)) throw new Error(`Image "${img.path}" no longer exists.`);
+        images.push({ ...img, data: arrayBufferToBase64(await this.app.vault.readBinary(af)) });
+      }
+      messages.push({ ...m, images });
+    }
+    const provider = getProvider(original.provider);
+    const { url, headers, body } = provider.buildRequest(
+      { baseURL: original.baseURL, apiKey: profile.apiKey },
+      {
+        model: original.params.model,
+        temperature: original.params.temperature,
+        maxTokens: original.params.maxTokens,
+        messages,
+        stream: false,
+        responseSchema: original.output === "expand" ? { name: "cards", schema: EXPANDED_CARDS_SCHEMA } : undefined,
+      }
+    );
+    const started = Date.now();
+    const entry: RunLogEntry = {
+      ...original,
+      id: uuid(),
+      rerunOf: original.id,
+      started: new Date(started).toISOString(),
+      params: { ...original.params, stream: false },
+      response: undefined,
+      usage: undefined,
+      error: undefined,
+      status: "ok",
+      timings: { totalMs: 0 },
+    };
+    try {
+      const result = await this.sendChatRequest(provider, url, headers, body);
+      entry.response = result.text;
+      entry.usage = result.usage;
+      entry.timings.attempts = result.attempts;
+    } catch (err) {
+      entry.status = "error";
+      entry.error = err instanceof Error ? err.message : String(err);
+    }
+    entry.timings.totalMs = Date.now() - started;
+    await this.appendRunLog(entry);
+    return entry;
+  }
+
+  /** Open (or focus) one of the plugin's views in the right sidebar */
+  async openSideView(type: string) {
+    const existing = this.app.workspace.getLeavesOfType(type)[0];
+    const leaf = existing ?? this.app.workspace.getRightLeaf(false);
+    if (!leaf) return;
+    if (!existing) await leaf.setViewState({ type, active: true });
+    await this.app.workspace.revealLeaf(leaf);
+  }
+
+  askConcurrency(): number {
+    const n = Math.round(Number(this.settings.maxConcurrentAsks));
+    return Number.isFinite(n) ? Math.max(1, Math.min(8, n)) : DEFAULTS.maxConcurrentAsks;
+  }
+
+  /**
+   * Queue an Ask. `run` does the model call and places the answer, using `job.controller.signal`
+   * for cancellation and recording added nodes in `job.nodeIds`. Failures and cancels get a notice.
+   */
+  private enqueueAsk(canvas: string, question: string, run: (job: AskJob) => Promise<void>): AskJob {
+    const waiting = this.jobs.running >= this.jobs.concurrency;
+    const job = this.jobs.add(canvas, question, async (j) => {
+      try {
+        await run(j);
+      } catch (err) {
+        if (isAbortError(err)) {
+          const kept = j.note ? ` The partial answer was kept in ${j.note}.` : "";
+          new Notice(`Ask canceled: ${truncateWords(question, DEFAULT_LABEL_WORDS)}.${kept}`);
+        } else {
+          console.error(err);
+          new Notice(`Ask failed: ${truncateWords(question, DEFAULT_LABEL_WORDS)}. See the Ask jobs view for details.`);
+        }
+        throw err;
+      }
+    });
+    if (waiting) new Notice(`Ask queued (${this.jobs.queued} waiting).`);
+    return job;
+  }
+
+  private onJobsChanged() {
+    this.updateBusyState();
+    this.refreshJobViews();
+  }
+
+  private refreshJobViews() {
+    for (const leaf of this.app.workspace.getLeavesOfType(ASK_JOBS_VIEW)) {
+      if (leaf.view instanceof AskJobsView) leaf.view.render();
+    }
+  }
+
+  /** Open a job's canvas and select the nodes it added */
+  async revealJobNodes(job: AskJob) {
+    const file = this.app.vault.getAbstractFileByPath(job.canvas);
+    if (!(file instanceof TFile)) {
+      new Notice(`Canvas not found: ${job.canvas}`);
+      return;
+    }
+    let view = this.getLiveCanvasView(file);
+    if (!view) {
+      await this.app.workspace.getLeaf(false).openFile(file);
+      view = this.getLiveCanvasView(file);
+    }
+    const canvas = view?.canvas;
+    const nodes = job.nodeIds.map(id => canvas?.nodes?.get(id)).filter((n): n is LiveCanvasNode => !!n);
+    if (!canvas || nodes.length === 0) {
+      if (job.nodeIds.length > 0) new Notice("The job's nodes are no longer on the canvas.");
+      return;
+    }
+    canvas.deselectAll?.();
+    for (const n of nodes) canvas.select?.(n);
+    canvas.zoomToSelection?.();
+  }
+
+  /** POST texts to the OpenAI-compatible /v1/embeddings endpoint; returns unit vectors in input order */
+  private async embedTexts(texts: string[]): Promise<Float32Array[]> {
+    const base = trimBase(this.settings.embeddingBaseURL || DEFAULTS.embeddingBaseURL);
+    // Same privacy rule as chat calls, except a local endpoint never sends anything off this machine
+    if (!this.settings.allowApiCalls && !isLocalEndpoint(base)) {
+      throw new Error("API calls are disabled in settings (a local embeddings endpoint is allowed).");
+    }
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.settings.embeddingApiKey) headers.Authorization = `Bearer ${this.settings.embeddingApiKey}`;
+
+    const out: Float32Array[] = [];
+    const batchSize = 32;
+    for (let i = 0; i < texts.length; i += batchSize) {
+      const batch = texts.slice(i, i + batchSize);
+      const res = await requestUrl({
+        url: `${base}/v1/embeddings`,
+        method: "POST",
+        headers,
+        body: JSON.stringify({ model: this.settings.embeddingModel.trim(), input: batch }),
+        throw: false,
+      });
+      if (res.status < 200 || res.status >= 300) throw providerError(OPENAI_PROVIDER, res.status, res.text);
+      const rows = (parseJsonSafe(res.text) as { data?: Array<{ index?: number; embedding?: number[] }> } | null)?.data;
+      if (!Array.isArray(rows) || rows.length !== batch.length) throw new Error("Unexpected embeddings response");
+      rows.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+      for (const r of rows) {
+        if (!Array.isArray(r.embedding)) throw new Error("Unexpected embeddings response");
+        out.push(normalizeVector(r.embedding));
+      }
+    }
+    return out;
+  }
+
+  /** Notes that are new or changed (by mtime) since they were last embedded */
+  private staleEmbeddingFiles(store: EmbeddingStore): TFile[] {
+    return this.app.vault.getMarkdownFiles().filter(f => !store.isFresh(f.path, f.stat.mtime));
+  }
+
+  /**
+   * Embed new or changed notes and drop deleted ones, then persist. A failed request only skips its
+   * notes (they stay stale and are retried next time); returns how many were skipped.
+   */
+  private async syncEmbeddings(store: EmbeddingStore): Promise<number> {
+    const live = new Set(this.app.vault.getMarkdownFiles().map(f => f.path));
+    for (const path of store.paths()) if (!live.has(path)) store.remove(path);
+
+    const stale = this.staleEmbeddingFiles(store);
+    if (stale.length === 0) {
+      await this.saveEmbeddingStore(store);
+      return 0;
+    }
+    const notice = stale.length > MAX_INLINE_EMBED_NOTES ? new Notice(`Embedding ${stale.length} notes…`, 0) : null;
+    let skipped = 0;
+    let failedInARow = 0;
+    try {
+      // Embed a few notes per request; save periodically so an interrupted first run isn't lost
+      const perRound = 16;
+      for (let i = 0; i < stale.length; i += perRound) {
+        const round = stale.slice(i, i + perRound);
+        notice?.setMessage(`Embedding notes… ${i}/${stale.length}`);
+        const chunked = await Promise.all(round.map(async f => {
+          try { return chunkForEmbedding(await this.app.vault.cachedRead(f)); } catch { return []; }
+        }));
+        let vectors: Float32Array[];
+        try {
+          vectors = await this.embedTexts(chunked.flat());
+        } catch (e) {
+          if (++failedInARow >= MAX_FAILED_EMBED_ROUNDS) throw e;
+          console.error(`Embedding ${round.length} notes failed; skipping them`, e);
+          skipped += round.length;
+          continue;
+        }
+        failedInARow = 0;
+        let v = 0;
+        round.forEach((f, j) => {
+          store.set(f.path, f.stat.mtime, chunked[j].map(text => ({
+            snippet: text.replace(/\s+/g, " ").slice(0, 160),
+            vector: vectors[v++],
+          })));
+        });
+        if ((i / perRound) % 10 === 9) await this.saveEmbeddingStore(store);
+      }
+    } finally {
+      notice?.hide();
+      await this.saveEmbeddingStore(store);
+    }
+    return skipped;
+  }
+
+  /** Fill the store in the background with a progress notice; joins a run already in progress */
+  private startEmbeddingSync(store: EmbeddingStore, doneMessage = "Embeddings ready"): Promise<void> {
+    if (!this.embeddingSync) {
+      const started = Date.now();
+      this.embeddingSync = this.syncEmbeddings(store)
+        .then(skipped => {
+          const took = ((Date.now() - started) / 1000).toFixed(1);
+          new Notice(`${doneMessage}: ${store.size} notes in ${took}s${skipped ? ` (${skipped} skipped after errors; see console)` : ""}.`);
+        })
+        .catch(e => {
+          console.error(e);
+          new Notice(`Failed to embed notes: ${(e as Error)?.message ?? e}`);
+        })
+        .finally(() => { this.embeddingSync = null; });
+    }
+    return this.embeddingSync;
+  }
+
+  /**
+   * Rank notes by cosine similarity between the query and their best chunk. A few changed notes are
+   * embedded first; with more than that (e.g. the first search) the store is filled in the
+   * background and null is returned so the caller can show keyword results meanwhile.
+   */
+  private async rankBySemantic(queryText: string): Promise<Array<{ file: TFile; similarity: number; snippet: string }> | null> {
+    const store = await this.loadEmbeddingStore();
+    if (this.embeddingSync || this.staleEmbeddingFiles(store).length > MAX_INLINE_EMBED_NOTES) {
+      this.startEmbeddingSync(store);
+      return null;
+    }
+    await this.syncEmbeddings(store);
+    const [query] = await this.embedTexts([queryText.slice(0, 4000)]);
+    const out: Array<{ file: TFile; similarity: number; snippet: string }> = [];
+    for (const hit of store.search(query, 200)) {
+      const af = this.app.vault.getAbstractFileByPath(hit.path);
+      if (af instanceof TFile) out.push({ file: af, similarity: hit.similarity, snippet: hit.snippet });
+    }
+    return out;
+  }
+
+  /** Command: discard cached embeddings and embed every note again */
+  async rebuildEmbeddings() {
+    if (this.embeddingSync) {
+      new Notice("Notes are already being embedded.");
+      return;
+    }
+    const store = new EmbeddingStore(this.settings.embeddingModel.trim());
+    this.embeddingStore = store;
+    store.dirty = true;
+    await this.startEmbeddingSync(store, "Embeddings rebuilt");
+  }
+
+  /** Whether any Ask job is running or waiting */
+  private get isBusy(): boolean {
+    return !!this.jobs && this.jobs.running + this.jobs.queued > 0;
   }
 
-  /** Toggle busy state and update status bar UI */
-  private setBusy(busy: boolean) {
-    this.isBusy = busy;
+  /** Show the job queue's state in the status bar */
+  private updateBusyState() {
     const el = this.statusBarEl;
     if (!el) { this.updateUiEnabledState(); return; }
 
     // Reset content
     el.empty();
 
-    if (busy) {
-      // Label + spinner
-      const label = el.createEl("span", { text: "Ask↑", cls: "ask-canvas-status-label" });
+    if (this.isBusy) {
+      // Label + spinner; the count appears once more than one job is active
+      const active = this.jobs.running + this.jobs.queued;
+      el.createEl("span", { text: active > 1 ? `Ask↑ ${active}` : "Ask↑", cls: "ask-canvas-status-label" });
       const spinner = el.createEl("span");
       spinner.classList.add("ask-canvas-spinner");
       el.setAttribute("aria-busy", "true");
       el.classList.add("ask-canvas-busy");
-      el.setAttribute("title", "Ask Canvas: Asking…");
+      el.setAttribute("title", `Ask Canvas: ${this.jobs.running} running, ${this.jobs.queued} queued (click to show jobs)`);
     } else {
       el.setText("Ask↑");
       el.setAttribute("title", "Ask Canvas: Ask (Upstream Context)");
@@ -762,7 +3164,7 @@ ${context.sourcesMarkdown}
     if (this.settings.showRibbonButton) {
       if (!this.ribbonEl) {
         this.ribbonEl = this.addRibbonIcon("message-square", "Active Canvas Query", () => {
-          if (this.isBusy) { this.cancelAsk("Canceled by user"); return; }
+          // Asks started while others run are queued
           this.askWithUpstreamContext();
         });
       }
@@ -781,7 +3183,8 @@ ${context.sourcesMarkdown}
         statusEl.setAttribute("title", "Active Canvas Query");
         // Register with plugin for auto-cleanup on unload
         this.registerDomEvent(statusEl, "click", () => {
-          if (this.isBusy) { this.cancelAsk("Canceled by user"); return; }
+          // While jobs are active the status bar leads to them (cancel from there)
+          if (this.isBusy) { this.openSideView(ASK_JOBS_VIEW); return; }
           this.askWithUpstreamContext();
         });
       }
@@ -796,22 +3199,167 @@ ${context.sourcesMarkdown}
   }
 
   /** Canvas I/O */
+  /** Current canvas data: from the open Canvas view when there is one (includes unsaved edits), else the file */
   private async readCanvas(file: TFile): Promise<CanvasData> {
-    const raw = await this.app.vault.read(file);
-    const d = JSON.parse(raw) as CanvasData;
+    const live = this.getLiveCanvasView(file)?.canvas;
+    let d: CanvasData | null = null;
+    if (live?.getData) {
+      try {
+        // Copy, so callers can't mutate the view's state
+        d = JSON.parse(JSON.stringify(live.getData())) as CanvasData;
+      } catch (e) {
+        console.warn('Live canvas unreadable; reading the file', e);
+      }
+    }
+    d ??= JSON.parse(await this.app.vault.read(file)) as CanvasData;
     d.nodes ||= []; d.edges ||= [];
     return d;
   }
-  private async writeCanvas(file: TFile, data: CanvasData) {
-    // Minified write for performance and smaller file size
-    await this.app.vault.modify(file, JSON.stringify(data));
+
+  /**
+   * Add a result file node below `parent`, placed against the canvas as it is now rather than the
+   * copy read when the command started (the user may have kept editing while the model answered).
+   */
+  async addResultNode(file: TFile, parent: CanvasNode, result: ResultContent, label: string, extraParents: CanvasNode[] = []): Promise<string[]> {
+    return this.placeOnCanvas(file, (latest, current) =>
+      this.applyResultAsChild(latest, current(parent), result, label, extraParents.map(current)));
+  }
+
+  /** Add expanded cards below `parent`, against the latest canvas (see addResultNode) */
+  private async addCardNodes(file: TFile, parent: CanvasNode, cards: ExpandedCard[], extraParents: CanvasNode[] = []): Promise<string[]> {
+    return this.placeOnCanvas(file, (latest, current) =>
+      this.applyCardsAsChildren(latest, current(parent), cards, extraParents.map(current)));
+  }
+
+  /**
+   * Build a patch against the latest canvas and apply it; returns the added node ids. Placements
+   * are serialized, so answers finishing together (concurrent jobs) are placed one after another.
+   */
+  private placeOnCanvas(file: TFile, build: (latest: CanvasData, current: (n: CanvasNode) => CanvasNode) => CanvasPatch): Promise<string[]> {
+    const run = this.canvasWriteChain.then(async () => {
+      const latest = await this.readCanvas(file);
+      const byId = new Map(latest.nodes.map(n => [n.id, n] as const));
+      // Use current positions; a parent deleted meanwhile keeps its last known one
+      const patch = build(latest, (n) => byId.get(n.id) ?? n);
+      await this.applyCanvasPatch(file, patch);
+      return patch.nodes.map(n => n.id);
+    });
+    this.canvasWriteChain = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Add nodes and edges without rewriting anything else. An open Canvas view gets them through its
+   * in-memory API (keeps undo history and unsaved edits, and the view saves itself); otherwise the
+   * file is re-read and patched atomically. Edges to nodes that no longer exist are dropped.
+   */
+  private async applyCanvasPatch(file: TFile, patch: CanvasPatch) {
+    const addTo = (d: CanvasData): CanvasPatch => {
+      const nodeIds = new Set((d.nodes ?? []).map(n => n.id));
+      const nodes = patch.nodes.filter(n => !nodeIds.has(n.id));
+      for (const n of nodes) nodeIds.add(n.id);
+      const edgeIds = new Set((d.edges ?? []).map(e => e.id));
+      const edges = patch.edges.filter(e => !edgeIds.has(e.id) && nodeIds.has(e.fromNode) && nodeIds.has(e.toNode));
+      return { nodes, edges };
+    };
+
+    const update = patch.update ?? [];
+    const live = this.getLiveCanvasView(file)?.canvas;
+    if (update.length > 0 && live?.getData && live.setData) {
+      try {
+        // Replacing nodes needs a full reload of the view's data (ids, and so edges, are kept)
+        const d = live.getData();
+        const byId = new Map(update.map(n => [n.id, n] as const));
+        d.nodes = d.nodes.map(n => byId.get(n.id) ?? n);
+        const add = addTo(d);
+        d.nodes.push(...add.nodes);
+        d.edges.push(...add.edges);
+        live.setData(d);
+        live.pushHistory?.(live.getData());
+        live.requestSave?.();
+        return;
+      } catch (e) {
+        console.warn('Live canvas update failed; patching the file', e);
+      }
+    } else if (update.length === 0 && live?.getData && live.importData) {
+      try {
+        live.importData(addTo(live.getData()));
+        live.pushHistory?.(live.getData());
+        live.requestFrame?.();
+        live.requestSave?.();
+        return;
+      } catch (e) {
+        console.warn('Live canvas update failed; patching the file', e);
+      }
+    }
+
+    await this.app.vault.process(file, (raw) => {
+      const d = JSON.parse(raw) as CanvasData;
+      const add = addTo(d);
+      // Splice the new items into the existing text so formatting, key order and unknown fields stay as they are
+      let text: string | null = raw;
+      for (const n of update) {
+        const i = (d.nodes ?? []).findIndex(x => x.id === n.id);
+        if (i < 0) continue;
+        d.nodes[i] = n;
+        text = text != null ? replaceInJsonArray(text, "nodes", i, n) : null;
+      }
+      const withNodes = text != null ? appendToJsonArray(text, "nodes", add.nodes) : null;
+      const patched = withNodes != null ? appendToJsonArray(withNodes, "edges", add.edges) : null;
+      if (patched != null) return patched;
+      // A key is missing: rewrite, keeping the file's indentation style
+      d.nodes = [...(d.nodes ?? []), ...add.nodes];
+      d.edges = [...(d.edges ?? []), ...add.edges];
+      return JSON.stringify(d, null, detectIndent(raw) || undefined);
+    });
+  }
+
+  /** The open Canvas view showing `canvasFile` (the active leaf first), if any */
+  private getLiveCanvasView(canvasFile: TFile): LiveCanvasView | null {
+    const leaves = [this.app.workspace.getMostRecentLeaf(), ...this.app.workspace.getLeavesOfType("canvas")];
+    for (const leaf of leaves) {
+      const view = leaf?.view as unknown as LiveCanvasView | undefined;
+      if (view?.canvas && view.file?.path === canvasFile.path) return view;
+    }
+    return null;
+  }
+
+  /** Ids of the nodes currently selected in the Canvas view of `canvasFile` */
+  private getCanvasSelection(canvasFile: TFile): string[] {
+    const selection = this.getLiveCanvasView(canvasFile)?.canvas?.selection;
+    return selection ? Array.from(selection, n => n.id).filter(Boolean) : [];
+  }
+
+  /**
+   * Resolve explicit ids (context menu) or else the live selection against the canvas data from
+   * `readCanvas`. Ids not found there are skipped.
+   */
+  private selectedNodes(data: CanvasData, canvasFile: TFile, nodeIds?: string[]): CanvasNode[] {
+    const ids = nodeIds ?? this.getCanvasSelection(canvasFile);
+    const byId = new Map(data.nodes.map(n => [n.id, n] as const));
+    return ids.map(id => byId.get(id)).filter((n): n is CanvasNode => !!n);
+  }
+
+  /** Context roots: every selected node, else one node chosen in the picker */
+  private async pickRoots(data: CanvasData, canvasFile: TFile, nodeIds?: string[]): Promise<CanvasNode[]> {
+    const selected = this.selectedNodes(data, canvasFile, nodeIds);
+    if (selected.length > 0) return selected;
+    const picked = await this.pickNode(data.nodes);
+    return picked ? [picked] : [];
+  }
+
+  /** A single node: the selected one, else the picker (narrowed to the selection when several are selected) */
+  private async pickOneNode(data: CanvasData, canvasFile: TFile, nodeIds?: string[]): Promise<CanvasNode | null> {
+    const selected = this.selectedNodes(data, canvasFile, nodeIds);
+    if (selected.length === 1) return selected[0];
+    return this.pickNode(selected.length > 1 ? selected : data.nodes);
   }
 
   /** Node picker */
-  private pickNode(data: CanvasData, canvasPath: string): Promise<CanvasNode | null> {
+  private pickNode(nodes: CanvasNode[]): Promise<CanvasNode | null> {
     return new Promise(resolve => {
       // Prepare choices with label and node
-      const choices = data.nodes.map(n => ({
+      const choices = nodes.map(n => ({
         label: getNodeLabel(n),
         node: n,
       }));
@@ -843,8 +3391,20 @@ ${context.sourcesMarkdown}
     });
   }
 
-  /** Ask the user to type a question in a modal (prefilled with a suggestion). */
-  private promptForQuestion(suggested: string): Promise<string | null> {
+  /**
+   * Ask the user to type a question and choose a model profile (prefilled with a suggestion), and
+   * optionally a prompt template. With a template the question may be left empty.
+   */
+  private promptForQuestion(
+    suggested: string,
+    profileId: string,
+    previewBudget?: (profileId: string) => Promise<ContextBudgetReport>,
+    templates: PromptTemplate[] = [],
+    initialTemplate?: PromptTemplate
+  ): Promise<{ question: string; profileId: string; output: AnswerOutput; template?: PromptTemplate } | null> {
+    const profiles = this.settings.profiles;
+    const initialProfile = this.getProfile(profileId);
+    const initialOutput = initialTemplate?.output ?? this.settings.defaultAnswerOutput;
     return new Promise(resolve => {
       let resolved = false;
 
@@ -862,47 +3422,324 @@ ${context.sourcesMarkdown}
           const textarea = contentEl.createEl("textarea", { cls: "ask-canvas-question-textarea" });
           // Open with an empty value; show suggestion as placeholder
           textarea.value = "";
-          if (this.value) textarea.placeholder = this.value;
+          const suggestion = this.value;
+          let template = initialTemplate;
+          // An empty question with a template asks the template's default question
+          const updatePlaceholder = () => {
+            textarea.placeholder = template ? `${template.question || template.name} (leave empty to use)` : suggestion;
+          };
+          updatePlaceholder();
+
+          let outputDropdown: DropdownComponent | null = null;
+          if (templates.length > 0) {
+            new Setting(contentEl)
+              .setName("Prompt template")
+              .addDropdown(d => {
+                d.addOption("", "None");
+                templates.forEach((t, i) => d.addOption(String(i), t.name));
+                d.setValue(template ? String(templates.indexOf(template)) : "").onChange((v) => {
+                  template = v ? templates[Number(v)] : undefined;
+                  if (template?.output) {
+                    output = template.output;
+                    outputDropdown?.setValue(output);
+                  }
+                  updatePlaceholder();
+                });
+              });
+          }
+
+          let chosenProfileId = initialProfile.id;
+          if (profiles.length > 1) {
+            new Setting(contentEl)
+              .setName("Model profile")
+              .addDropdown(d => {
+                for (const p of profiles) d.addOption(p.id, `${p.name} (${p.model})`);
+                d.setValue(chosenProfileId).onChange((v) => { chosenProfileId = v; renderPreview(); });
+              });
+          }
+
+          let output = initialOutput;
+          new Setting(contentEl)
+            .setName("Output")
+            .addDropdown(d => {
+              outputDropdown = d;
+              for (const [k, label] of Object.entries(ANSWER_OUTPUT_LABELS)) d.addOption(k, label);
+              d.setValue(output).onChange((v) => { output = v as AnswerOutput; });
+            });
+
+          // Context budget preview: how the chosen profile's token budget is spent
+          const previewEl = contentEl.createEl("details", { cls: "ask-canvas-budget" });
+          const previewSummary = previewEl.createEl("summary", { text: "Context budget" });
+          const previewBody = previewEl.createEl("div");
+          let previewSeq = 0;
+          const renderPreview = () => {
+            if (!previewBudget) { previewEl.hide(); return; }
+            const seq = ++previewSeq;
+            previewSummary.setText("Context budget: calculating…");
+            previewBudget(chosenProfileId).then(report => {
+              if (seq !== previewSeq) return; // a newer profile was chosen meanwhile
+              previewSummary.setText(`Context budget: ${report.used} / ${report.budget} tokens (≈) across ${report.items.length} nodes`);
+              previewBody.empty();
+              const table = previewBody.createEl("table", { cls: "ask-canvas-budget-table" });
+              const head = table.createEl("tr");
+              for (const h of ["Node", "Depth", "Sent / full", "Mode"]) head.createEl("th", { text: h });
+              for (const it of report.items) {
+                const row = table.createEl("tr", { cls: `ask-canvas-budget-${it.mode}` });
+                row.createEl("td", { text: truncateWords(it.label, DEFAULT_LABEL_WORDS) });
+                row.createEl("td", { text: String(it.depth) });
+                row.createEl("td", { text: `${it.used} / ${it.tokens}` });
+                row.createEl("td", { text: it.mode });
+              }
+            }).catch(e => {
+              console.error(e);
+              if (seq === previewSeq) previewSummary.setText("Context budget: preview failed");
+            });
+          };
+          renderPreview();
+
+          const btnRow = contentEl.createEl("div", { cls: "ask-canvas-btn-row" });
+
+          const askBtn = btnRow.createEl("button", { text: "Ask" });
+          // Make Ask button primary for visual distinction
+          askBtn.classList.add("mod-cta");
+          const cancelBtn = btnRow.createEl("button", { text: "Cancel", cls: "ask-canvas-btn-cancel" });
+
+          askBtn.addEventListener("click", () => {
+            const q = textarea.value.trim() || (template ? template.question || template.name : "");
+            if (!resolved) {
+              resolved = true;
+              this.close();
+              resolve(q ? { question: q, profileId: chosenProfileId, output, template } : null);
+            }
+          });
+          cancelBtn.addEventListener("click", () => {
+            if (!resolved) {
+              resolved = true;
+              this.close();
+              resolve(null);
+            }
+          });
+
+          textarea.addEventListener("keydown", (ev: KeyboardEvent) => {
+            // Default: Enter submits, Shift+Enter inserts newline
+            if (ev.key === "Enter" && !ev.isComposing) {
+              if (ev.shiftKey) return; // allow newline
+              ev.preventDefault();
+              askBtn.click();
+            }
+          });
+        }
+        onClose(): void {
+          this.contentEl.empty();
+          // Closing with Esc counts as cancel
+          if (!resolved) {
+            resolved = true;
+            resolve(null);
+          }
+        }
+      }
+
+      const modal = new QuestionModal(this.app, suggested);
+      modal.open();
+    });
+  }
+
+  /** Ask for several questions (one per line) and/or several model profiles for a fan-out run */
+  private promptForFanOut(suggested: string, profileId: string): Promise<{ questions: string[]; profileIds: string[]; output: AnswerOutput } | null> {
+    const profiles = this.settings.profiles;
+    const initialProfile = this.getProfile(profileId);
+    const initialOutput = this.settings.defaultAnswerOutput;
+    return new Promise(resolve => {
+      let resolved = false;
+
+      class FanOutModal extends Modal {
+        onOpen(): void {
+          const { contentEl } = this;
+          contentEl.empty();
+          contentEl.createEl("h2", { text: "Fan-out Ask" });
+          contentEl.createEl("div", { text: "One question per line. Every question is asked with every checked profile.", cls: "mod-muted" });
+
+          const textarea = contentEl.createEl("textarea", { cls: "ask-canvas-question-textarea" });
+          if (suggested) textarea.placeholder = suggested;
+
+          const chosen = new Set<string>([initialProfile.id]);
+          const list = contentEl.createEl("div", { cls: "ask-canvas-fanout-profiles" });
+          for (const p of profiles) {
+            const row = list.createEl("label", { cls: "ask-canvas-review-top" });
+            const cb = row.createEl("input", { type: "checkbox" });
+            cb.checked = chosen.has(p.id);
+            cb.addEventListener("change", () => { if (cb.checked) chosen.add(p.id); else chosen.delete(p.id); });
+            row.createEl("span", { text: `${p.name} (${p.model})` });
+          }
+
+          let output = initialOutput;
+          new Setting(contentEl)
+            .setName("Output")
+            .addDropdown(d => {
+              for (const [k, label] of Object.entries(ANSWER_OUTPUT_LABELS)) d.addOption(k, label);
+              d.setValue(output).onChange((v) => { output = v as AnswerOutput; });
+            });
 
           const btnRow = contentEl.createEl("div", { cls: "ask-canvas-btn-row" });
+          const askBtn = btnRow.createEl("button", { text: "Ask all" });
+          askBtn.classList.add("mod-cta");
+          const cancelBtn = btnRow.createEl("button", { text: "Cancel", cls: "ask-canvas-btn-cancel" });
+
+          askBtn.addEventListener("click", () => {
+            const questions = textarea.value.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+            if (questions.length === 0) { new Notice("Enter at least one question."); return; }
+            if (chosen.size === 0) { new Notice("Choose at least one profile."); return; }
+            if (!resolved) {
+              resolved = true;
+              this.close();
+              // Keep the settings order for profiles
+              resolve({ questions, profileIds: profiles.filter(p => chosen.has(p.id)).map(p => p.id), output });
+            }
+          });
+          cancelBtn.addEventListener("click", () => this.close());
+        }
+        onClose(): void {
+          this.contentEl.empty();
+          if (!resolved) {
+            resolved = true;
+            resolve(null);
+          }
+        }
+      }
+
+      new FanOutModal(this.app).open();
+    });
+  }
+
+  /**
+   * Review step between the question and the API call: lists every collected node with its type,
+   * size, packing mode and the text that will be sent. Nodes can be dropped or sent in full, and the
+   * final request body can be inspected as JSON. Resolves with the context to send and the overrides
+   * that produced it, or null on cancel.
+   */
+  private reviewContext(
+    question: string,
+    profile: ModelProfile,
+    initial: MaterializedContext,
+    recompute: (overrides: ContextOverrides) => Promise<MaterializedContext>,
+    template?: PromptTemplate
+  ): Promise<{ context: MaterializedContext; overrides: ContextOverrides } | null> {
+    const plugin = this;
+    return new Promise(resolve => {
+      let resolved = false;
+      const overrides: Required<ContextOverrides> = { exclude: new Set<string>(), expand: new Set<string>() };
+
+      class ReviewModal extends Modal {
+        private context = initial;
+        private seq = 0;
+        onOpen(): void {
+          this.modalEl.addClass("ask-canvas-review-modal");
+          this.render();
+        }
+        /** Repack after a toggle; if that fails, `revert` undoes the toggle and the list is redrawn */
+        private async update(revert: () => void) {
+          const seq = ++this.seq;
+          let next: MaterializedContext;
+          try {
+            next = await recompute(overrides);
+          } catch (e) {
+            console.error('Context recompute failed', e);
+            new Notice(`Couldn't rebuild the context: ${e instanceof Error ? e.message : String(e)}`);
+            revert();
+            if (seq === this.seq) this.render();
+            return;
+          }
+          if (seq !== this.seq) return; // superseded by a newer toggle
+          this.context = next;
+          this.render();
+        }
+        private render() {
+          const { contentEl } = this;
+          const { budget } = this.context;
+          contentEl.empty();
+          contentEl.createEl("h2", { text: "Review context" });
+          const included = budget.items.filter(it => it.mode !== "excluded" && it.mode !== "dropped" && it.mode !== "skipped").length;
+          contentEl.createEl("div", {
+            text: `${budget.used} / ${budget.budget} tokens (≈) · ${included} of ${budget.items.length} nodes sent · ${profile.name} (${profile.model})`,
+            cls: "mod-muted",
+          });
 
-          const askBtn = btnRow.createEl("button", { text: "Ask" });
-          // Make Ask button primary for visual distinction
-          askBtn.classList.add("mod-cta");
-          const cancelBtn = btnRow.createEl("button", { text: "Cancel", cls: "ask-canvas-btn-cancel" });
+          const list = contentEl.createEl("div", { cls: "ask-canvas-review-list" });
+          for (const it of budget.items) {
+            const row = list.createEl("div", { cls: `ask-canvas-review-item ask-canvas-budget-${it.mode}` });
+            const top = row.createEl("label", { cls: "ask-canvas-review-top" });
+            const include = top.createEl("input", { type: "checkbox" });
+            include.checked = !overrides.exclude.has(it.id);
+            include.addEventListener("change", () => {
+              const toggle = (on: boolean) => { if (on) overrides.exclude.delete(it.id); else overrides.exclude.add(it.id); };
+              const checked = include.checked;
+              toggle(checked);
+              this.update(() => { toggle(!checked); include.checked = !checked; });
+            });
+            top.createEl("span", { text: truncateWords(it.label, DEFAULT_LABEL_WORDS), cls: "ask-canvas-suggestion-left" });
+            row.createEl("div", {
+              text: it.reason
+                ? `${it.type} · depth ${it.depth} · not sent: ${it.reason}`
+                : `${it.type} · depth ${it.depth} · ${it.chars} chars · ${it.used} / ${it.tokens} tokens · ${it.mode}`,
+              cls: "mod-muted ask-canvas-suggestion-hint",
+            });
+
+            // Offer "send in full" for anything the budget cut down (and keep it visible once chosen)
+            if (it.mode === "trimmed" || it.mode === "summary" || it.mode === "dropped" || overrides.expand.has(it.id)) {
+              const expandLabel = row.createEl("label", { cls: "ask-canvas-review-expand" });
+              const expand = expandLabel.createEl("input", { type: "checkbox" });
+              expand.checked = overrides.expand.has(it.id);
+              expandLabel.appendText(" Send in full");
+              expand.addEventListener("change", () => {
+                const toggle = (on: boolean) => { if (on) overrides.expand.add(it.id); else overrides.expand.delete(it.id); };
+                const checked = expand.checked;
+                toggle(checked);
+                this.update(() => { toggle(!checked); expand.checked = !checked; });
+              });
+            }
 
-          askBtn.addEventListener("click", () => {
-            const q = textarea.value.trim();
-            if (!resolved) {
-              resolved = true;
-              this.close();
-              resolve(q || null);
+            if (it.sent) {
+              const details = row.createEl("details");
+              details.createEl("summary", { text: "Preview" });
+              details.createEl("pre", { text: it.sent, cls: "ask-canvas-review-pre" });
             }
+          }
+
+          const raw = contentEl.createEl("details", { cls: "ask-canvas-review-raw" });
+          raw.createEl("summary", { text: "Raw request JSON" });
+          raw.addEventListener("toggle", () => {
+            if (!raw.open || raw.querySelector("pre")) return;
+            // Built lazily: the body carries the full context. Headers (and the API key) are not shown.
+            const { url, body } = plugin.buildChatRequest(question, this.context, profile, plugin.settings.streamResponses, "note", template);
+            raw.createEl("div", { text: `POST ${url}`, cls: "mod-muted" });
+            let pretty = body;
+            try { pretty = JSON.stringify(JSON.parse(body), null, 2); } catch { /* keep raw */ }
+            raw.createEl("pre", { text: pretty, cls: "ask-canvas-review-pre" });
           });
-          cancelBtn.addEventListener("click", () => {
+
+          const btnRow = contentEl.createEl("div", { cls: "ask-canvas-btn-row" });
+          const sendBtn = btnRow.createEl("button", { text: "Send" });
+          sendBtn.classList.add("mod-cta");
+          const cancelBtn = btnRow.createEl("button", { text: "Cancel", cls: "ask-canvas-btn-cancel" });
+          sendBtn.addEventListener("click", () => {
             if (!resolved) {
               resolved = true;
               this.close();
-              resolve(null);
-            }
-          });
-
-          textarea.addEventListener("keydown", (ev: KeyboardEvent) => {
-            // Default: Enter submits, Shift+Enter inserts newline
-            if (ev.key === "Enter" && !ev.isComposing) {
-              if (ev.shiftKey) return; // allow newline
-              ev.preventDefault();
-              askBtn.click();
+              resolve({ context: this.context, overrides });
             }
           });
+          cancelBtn.addEventListener("click", () => this.close());
         }
         onClose(): void {
           this.contentEl.empty();
+          if (!resolved) {
+            resolved = true;
+            resolve(null);
+          }
         }
       }
 
-      const modal = new QuestionModal(this.app, suggested);
-      modal.open();
+      new ReviewModal(this.app).open();
     });
   }
 
@@ -926,6 +3763,155 @@ ${context.sourcesMarkdown}
 
   
 
+  /**
+   * Upstream of several roots, each collected on its own and then merged: a node reached from several
+   * roots is kept once at its shortest depth, and the roots themselves are excluded. Ordered by depth,
+   * ties in root order. `branchById` maps every root and upstream node to the heading it is sent under
+   * (one branch per root, plus "Shared context" for nodes upstream of more than one root).
+   */
+  private collectUpstreamFromRoots(
+    data: CanvasData,
+    roots: CanvasNode[],
+    maxDepth: number
+  ): { nodes: CanvasNode[]; depthById: Record<string, number>; branchById?: Record<string, string> } {
+    if (roots.length === 1) return this.collectUpstream(data, roots[0].id, maxDepth);
+    const rootIds = new Set(roots.map(r => r.id));
+    const depthById: Record<string, number> = Object.create(null);
+    const merged = new Map<string, CanvasNode>();
+    const owners = new Map<string, Set<number>>();
+    roots.forEach((r, i) => {
+      const info = this.collectUpstream(data, r.id, maxDepth);
+      for (const n of info.nodes) {
+        if (rootIds.has(n.id)) continue;
+        const d = info.depthById[n.id];
+        if (!merged.has(n.id)) merged.set(n.id, n);
+        if (depthById[n.id] == null || d < depthById[n.id]) depthById[n.id] = d;
+        const o = owners.get(n.id);
+        if (o) o.add(i); else owners.set(n.id, new Set([i]));
+      }
+    });
+    const nodes = Array.from(merged.values()).sort((a, b) => depthById[a.id] - depthById[b.id]);
+
+    const headings = roots.map((r, i) => `Branch ${i + 1}: ${truncateWords(getNodeLabel(r), DEFAULT_LABEL_WORDS) || r.id}`);
+    const branchById: Record<string, string> = Object.create(null);
+    roots.forEach((r, i) => { branchById[r.id] = headings[i]; });
+    for (const [id, o] of owners) {
+      branchById[id] = o.size > 1 ? "Shared context (upstream of several branches)" : headings[o.values().next().value as number];
+    }
+    return { nodes, depthById, branchById };
+  }
+
+  /**
+   * Add what container nodes hold: the nodes inside each group's bounds, and the nodes of canvases
+   * embedded as file nodes (recursively, up to the embedded canvas depth setting). Each canvas is
+   * opened at most once per Ask, which also stops cycles. Contents follow their container at its depth
+   * and branch; nodes from embedded canvases get ids prefixed with the embedding node's id.
+   */
+  private async expandContainers(
+    canvasPath: string,
+    data: CanvasData,
+    nodes: CanvasNode[],
+    info: { depthById: Record<string, number>; branchById?: Record<string, string> }
+  ): Promise<{ nodes: CanvasNode[]; depthById: Record<string, number>; branchById?: Record<string, string> }> {
+    const rawDepth = Math.round(Number(this.settings.embeddedCanvasDepth));
+    const maxCanvasDepth = Math.max(0, Math.min(5, Number.isFinite(rawDepth) ? rawDepth : DEFAULTS.embeddedCanvasDepth));
+    const depthById: Record<string, number> = Object.assign(Object.create(null), info.depthById);
+    const branchById = info.branchById ? Object.assign(Object.create(null), info.branchById) as Record<string, string> : undefined;
+    const out: CanvasNode[] = [];
+    const seen = new Set(nodes.map(n => n.id));
+    const openedCanvases = new Set([canvasPath]);
+
+    const addContents = async (container: CanvasNode, contents: CanvasNode[], siblings: CanvasNode[], level: number) => {
+      for (const c of contents) {
+        if (seen.has(c.id)) continue;
+        seen.add(c.id);
+        depthById[c.id] = depthById[container.id] ?? 0;
+        if (branchById?.[container.id]) branchById[c.id] = branchById[container.id];
+        await visit(c, siblings, level);
+      }
+    };
+    const visit = async (n: CanvasNode, siblings: CanvasNode[], level: number) => {
+      out.push(n);
+      if (n.type === "group") {
+        await addContents(n, nodesInsideGroup(n, siblings), siblings, level);
+        return;
+      }
+      const path = n.type === "file" ? resolveFilePath(n.file) : "";
+      if (!path.toLowerCase().endsWith(".canvas") || level >= maxCanvasDepth || openedCanvases.has(path)) return;
+      const af = this.app.vault.getAbstractFileByPath(path);
+      if (!(af instanceof TFile)) return;
+      openedCanvases.add(path);
+      let embedded: CanvasData;
+      try {
+        embedded = await this.readCanvas(af);
+      } catch (e) {
+        console.warn(`Embedded canvas unreadable: ${path}`, e);
+        return;
+      }
+      const prefixed = embedded.nodes.map(c => ({ ...c, id: `${n.id}/${c.id}` }));
+      await addContents(n, prefixed.slice().sort((a, b) => a.y - b.y || a.x - b.x), prefixed, level + 1);
+    };
+
+    for (const n of nodes) await visit(n, data.nodes, 0);
+    return { nodes: out, depthById, branchById };
+  }
+
+  /** Collect upstream nodes using the traversal mode chosen in settings */
+  private collectUpstream(
+    data: CanvasData,
+    targetId: string,
+    maxDepth: number
+  ): { nodes: CanvasNode[]; depthById: Record<string, number> } {
+    return this.settings.contextTraversal === "dag"
+      ? this.collectAncestorsBreadthFirst(data, targetId, maxDepth)
+      : this.collectPredecessorsUpToDepth(data, targetId, maxDepth);
+  }
+
+  /**
+   * Collect every ancestor of `targetId` up to `maxDepth` hops, following incoming edges on any side.
+   * Breadth-first, so each node is recorded at its shortest distance from the target; nodes reachable
+   * through several paths (diamonds) appear once. Result is ordered by depth (1..maxDepth), ties in
+   * discovery order.
+   */
+  private collectAncestorsBreadthFirst(
+    data: CanvasData,
+    targetId: string,
+    maxDepth: number = 3
+  ): { nodes: CanvasNode[]; depthById: Record<string, number> } {
+    const nodeById = new Map<string, CanvasNode>();
+    for (const n of data.nodes) nodeById.set(n.id, n);
+
+    const incomingByToNode = new Map<string, CanvasEdge[]>();
+    for (const e of data.edges) {
+      const list = incomingByToNode.get(e.toNode);
+      if (list) list.push(e); else incomingByToNode.set(e.toNode, [e]);
+    }
+
+    const depthById: Record<string, number> = Object.create(null);
+    const ordered: CanvasNode[] = [];
+    const seen = new Set<string>([targetId]);
+
+    let frontier: string[] = [targetId];
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const e of incomingByToNode.get(id) || []) {
+          const prevId = e.fromNode;
+          if (!prevId || seen.has(prevId)) continue;
+          seen.add(prevId);
+          const prevNode = nodeById.get(prevId);
+          if (!prevNode) continue;
+          depthById[prevId] = depth;
+          ordered.push(prevNode);
+          next.push(prevId);
+        }
+      }
+      frontier = next;
+    }
+
+    return { nodes: ordered, depthById };
+  }
+
   /**
    * Follow a single upstream chain via top connections.
    * Starts at `targetId`, then repeatedly finds an incoming edge with `toSide === "top"`,
@@ -979,90 +3965,684 @@ ${context.sourcesMarkdown}
     return { nodes: chain, depthById };
   }
 
-  /** Convert nodes to textual context */
-  private async materializeContext(nodes: CanvasNode[]): Promise<{ text: string; sourcesMarkdown: string; }> {
-    const tasks: Array<() => Promise<{ part?: string; sources?: string[] }>> = [];
+  /**
+   * Build the context for an Ask. In thread mode, earlier answer notes on the branch become
+   * conversation turns (up to half the budget) and only the remaining nodes are packed as context.
+   * `question` picks which sections of trimmed notes are sent; without it they are cut from the top.
+   */
+  private async buildContext(
+    data: CanvasData,
+    nodes: CanvasNode[],
+    depthById: Record<string, number>,
+    profile: ModelProfile,
+    overrides: ContextOverrides = {},
+    branchById?: Record<string, string>,
+    question = ""
+  ): Promise<MaterializedContext> {
+    const tokenBudget = profile.contextTokenBudget;
+    if (!this.settings.threadMode) return this.materializeContext(nodes, depthById, tokenBudget, overrides, branchById, profile.vision, question);
+
+    const thread = await this.collectThread(data, nodes, depthById, Math.floor(tokenBudget / 2));
+    const turns = thread.turns.filter(t => !overrides.exclude?.has(t.nodeId));
+    const turnIds = new Set(thread.turns.map(t => t.nodeId));
+    const turnTokens = turns.reduce((sum, t) => sum + estimateTokens(t.question) + estimateTokens(t.answer), 0);
+    const context = await this.materializeContext(
+      nodes.filter(n => !turnIds.has(n.id)),
+      depthById,
+      Math.max(0, tokenBudget - turnTokens),
+      overrides,
+      branchById,
+      profile.vision,
+      question
+    );
+
+    // Report turns alongside packed nodes so the preview and review step show them
+    const nodeById = new Map(nodes.map(n => [n.id, n] as const));
+    const turnItems: ContextBudgetItem[] = thread.turns.map(t => {
+      const node = nodeById.get(t.nodeId);
+      const excluded = !!overrides.exclude?.has(t.nodeId);
+      const tokens = estimateTokens(t.question) + estimateTokens(t.answer);
+      return {
+        id: t.nodeId,
+        label: `💬 ${t.question}`,
+        type: node?.type ?? "file",
+        depth: depthById[t.nodeId] ?? 0,
+        chars: t.question.length + t.answer.length,
+        tokens,
+        allocated: excluded ? 0 : tokens,
+        used: excluded ? 0 : tokens,
+        mode: excluded ? "excluded" : "full",
+        sent: excluded ? "" : `Q: ${t.question}\n\n${t.answer}`,
+      };
+    });
+    const turnSources = turns.map(t => `- [[${t.source}]] (conversation turn)`);
+
+    return {
+      ...context,
+      sourcesMarkdown: [...turnSources, context.sourcesMarkdown].filter(Boolean).join("\n"),
+      budget: {
+        budget: tokenBudget,
+        used: context.budget.used + turnTokens,
+        items: [...turnItems, ...context.budget.items],
+      },
+      turns,
+    };
+  }
+
+  /**
+   * Rebuild the conversation along a branch for thread mode. An answer node is a Markdown file node
+   * with a labeled incoming edge (the question it answered, as written by `applyResultAsChild`).
+   * Turns are returned oldest first; if they don't fit in `maxTokens`, the oldest are dropped and
+   * their nodes fall back to ordinary context.
+   */
+  private async collectThread(
+    data: CanvasData,
+    nodes: CanvasNode[],
+    depthById: Record<string, number>,
+    maxTokens: number
+  ): Promise<{ turns: ThreadTurn[]; tokens: number }> {
+    const inSet = new Set(nodes.map(n => n.id));
+    const template = await this.loadAnswerTemplate();
+    const candidates: Array<{ node: CanvasNode; question: string; path: string }> = [];
+    for (const n of nodes) {
+      if (n.type !== "file") continue;
+      const path = resolveFilePath(n.file);
+      if (!path.toLowerCase().endsWith(".md")) continue;
+      const labeled = data.edges.filter(e => e.toNode === n.id && typeof e.label === "string" && e.label.trim());
+      // Prefer the question edge coming from inside the branch
+      const edge = labeled.find(e => inSet.has(e.fromNode)) ?? labeled[0];
+      if (edge) candidates.push({ node: n, question: String(edge.label).trim(), path });
+    }
+    // Oldest (furthest upstream) first
+    candidates.sort((a, b) => (depthById[b.node.id] ?? 0) - (depthById[a.node.id] ?? 0));
+
+    const turns: ThreadTurn[] = [];
+    for (const c of candidates) {
+      const af = this.app.vault.getAbstractFileByPath(c.path);
+      if (!(af instanceof TFile)) continue;
+      const answer = stripAnswerNoteExtras(await this.app.vault.read(af), template);
+      if (answer) turns.push({ nodeId: c.node.id, question: c.question, answer, source: c.path });
+    }
+
+    const cost = (t: ThreadTurn) => estimateTokens(t.question) + estimateTokens(t.answer);
+    let tokens = turns.reduce((sum, t) => sum + cost(t), 0);
+    while (turns.length > 0 && tokens > maxTokens) {
+      tokens -= cost(turns[0]);
+      turns.shift();
+    }
+    return { turns, tokens };
+  }
+
+  /**
+   * Convert nodes to textual context packed into a token budget.
+   * Parts are read in full, then `allocateBudget` grants each a depth-weighted share: parts that fit are
+   * sent whole, larger ones are trimmed, and parts left with too little room are reduced to an outline
+   * or omitted. Every node that was not explicitly excluded still appears in the sources list.
+   * Overrides from the review step drop nodes entirely or send them in full outside the allocation.
+   * Image files are attached as image content when `vision` is set (up to the per-Ask image limit),
+   * PDFs contribute locally extracted text, and other non-text files are listed as unsupported.
+   * Notes linked or embedded from context notes (see `collectLinkedParts`) are secondary: they share
+   * only the budget the canvas nodes leave over, and are sent and listed after them.
+   * A note that has to be trimmed sends the sections most relevant to `question` (see `scoreSections`)
+   * rather than its beginning.
+   */
+  private async materializeContext(
+    nodes: CanvasNode[],
+    depthById: Record<string, number>,
+    tokenBudget: number,
+    overrides: ContextOverrides = {},
+    branchById?: Record<string, string>,
+    vision = false,
+    question = ""
+  ): Promise<MaterializedContext> {
+    type RawPart = {
+      node: CanvasNode; header?: string; body?: string; sources?: string[]; image?: ChatImage;
+      file?: TFile; linked?: boolean; depth?: number; sections?: TextSection[]; reason?: string;
+    };
+    const rawImageMB = Number(this.settings.maxImageSizeMB);
+    const maxImageMB = Number.isFinite(rawImageMB) && rawImageMB > 0 ? rawImageMB : DEFAULTS.maxImageSizeMB;
+    const pdfTokenLimit = Math.max(100, Math.round(Number(this.settings.pdfTokenLimit)) || DEFAULTS.pdfTokenLimit);
+    const tasks: Array<() => Promise<RawPart>> = [];
     for (const n of nodes) {
       if (n.type === "text") {
         tasks.push(async () => {
           const raw = extractTextField(n.text);
-          const txt = raw.slice(0, this.settings.contextCharLimitPerNode);
-          return { part: `### Text card (${n.id})\n${txt}`, sources: [`- Text card (${n.id})`] };
+          return { node: n, header: `### Text card (${n.id})`, body: raw, sources: [`- Text card (${n.id})`] };
         });
       } else if (n.type === "file" && n.file) {
         tasks.push(async () => {
           const path = resolveFilePath(n.file);
           const af = this.app.vault.getAbstractFileByPath(path);
           if (af instanceof TFile) {
-            const content = (await this.app.vault.read(af)).slice(0, this.settings.contextCharLimitPerNode);
-            return { part: `### File: ${path}\n${content}`, sources: [`- [[${path}]]`] };
+            const ext = af.extension.toLowerCase();
+            const mime = IMAGE_MIME_TYPES[ext];
+            if (mime) {
+              if (!vision) {
+                const reason = "the profile doesn't accept images";
+                return { node: n, reason, sources: [`- [[${path}]] (image not sent: ${reason})`] };
+              }
+              if (af.stat.size > maxImageMB * 1024 * 1024) {
+                const reason = `larger than ${maxImageMB} MB`;
+                return { node: n, reason, sources: [`- [[${path}]] (image not sent: ${reason})`] };
+              }
+              // Data is read below, only for the images that make the per-Ask limit
+              return { node: n, header: `### Image: ${path} (attached)`, image: { path, mime, data: "" }, sources: [`- [[${path}]] (image)`] };
+            }
+            if (ext === "pdf") {
+              try {
+                const pdf = await this.extractPdfText(af, pdfTokenLimit);
+                if (!pdf.text) return { node: n, reason: "no text layer", sources: [`- [[${path}]] (PDF not sent: no text layer)`] };
+                const pages = pdf.pages < pdf.total ? `, first ${pdf.pages} of ${pdf.total} pages` : "";
+                return { node: n, header: `### PDF: ${path}`, body: pdf.text, sources: [`- [[${path}]] (PDF text${pages})`] };
+              } catch (e) {
+                console.warn(`PDF text extraction failed: ${path}`, e);
+                return { node: n, reason: "text extraction failed", sources: [`- [[${path}]] (PDF not sent: text extraction failed)`] };
+              }
+            }
+            if (ext === "canvas") {
+              // Its nodes, if opened, follow as parts of their own
+              return { node: n, header: `### Canvas: ${path}`, body: "", sources: [`- [[${path}]] (canvas)`] };
+            }
+            if (!TEXT_FILE_EXTENSIONS.has(ext)) {
+              const reason = `unsupported file type .${ext}`;
+              return { node: n, reason, sources: [`- [[${path}]] (not sent: ${reason})`] };
+            }
+            const content = await this.app.vault.read(af);
+            const cache = ext === "md" ? this.app.metadataCache.getFileCache(af) : null;
+            return {
+              node: n, header: `### File: ${path}`, body: content, sources: [`- [[${path}]]`],
+              file: ext === "md" ? af : undefined,
+              sections: cache ? noteSections(cache, content) : undefined,
+            };
           } else {
-            return { sources: [`- Missing file: ${path}`] };
+            return { node: n, reason: "file not found", sources: [`- Missing file: ${path}`] };
           }
         });
       } else if (n.type === "link") {
         tasks.push(async () => {
           const urlRef = typeof n.url === 'string' ? n.url : extractTextField(n.url);
-          return { part: `### Link: ${urlRef}\nLabel: ${n.label ?? ""}`, sources: [`- Link: ${urlRef}`] };
+          return { node: n, header: `### Link: ${urlRef}`, body: `Label: ${n.label ?? ""}`, sources: [`- Link: ${urlRef}`] };
         });
       } else if (n.type === "group") {
-        tasks.push(async () => ({ part: `### Group: ${n.label ?? n.id}`, sources: [`- Group: ${n.label ?? n.id}`] }));
+        tasks.push(async () => ({ node: n, header: `### Group: ${n.label ?? n.id}`, body: "", sources: [`- Group: ${n.label ?? n.id}`] }));
       } else {
-        tasks.push(async () => ({ }));
+        tasks.push(async () => ({ node: n }));
       }
     }
 
-    const results = await runWithConcurrency(tasks, getConcurrency(6));
-    const parts: string[] = [];
+    const raws = await runWithConcurrency(tasks, getConcurrency(6));
+
+    const exclude = overrides.exclude ?? new Set<string>();
+    const expand = overrides.expand ?? new Set<string>();
+
+    const rawLinkDepth = Math.round(Number(this.settings.linkExpansionDepth));
+    const linkDepth = Math.max(0, Math.min(3, Number.isFinite(rawLinkDepth) ? rawLinkDepth : DEFAULTS.linkExpansionDepth));
+    const linked: RawPart[] = [];
+    if (linkDepth > 0) {
+      const from = raws
+        .filter(r => r.file && !exclude.has(r.node.id))
+        .map(r => ({ node: r.node, file: r.file as TFile, depth: depthById[r.node.id] ?? 0 }));
+      for (const part of await this.collectLinkedParts(from, linkDepth)) linked.push({ ...part, linked: true });
+    }
+
+    // Images sit outside the text allocation: the first few (nearest the selected node) are attached
+    // and their estimated cost comes off the text budget
+    const imageLimit = Math.max(0, Math.round(Number(this.settings.maxImagesPerAsk)));
+    const attached = new Set<RawPart>();
+    for (const r of raws) {
+      if (r.image && !exclude.has(r.node.id) && attached.size < imageLimit) attached.add(r);
+    }
+    await Promise.all(Array.from(attached, async r => {
+      const image = r.image as ChatImage;
+      const af = this.app.vault.getAbstractFileByPath(image.path);
+      if (af instanceof TFile) image.data = arrayBufferToBase64(await this.app.vault.readBinary(af));
+      else attached.delete(r);
+    }));
+
+    // Allocate the budget across parts that have text to send. Expanded parts are paid for first
+    // and excluded parts get nothing.
+    const textBudget = tokenBudget - attached.size * IMAGE_TOKEN_ESTIMATE;
+    const sendable = [...raws, ...linked].filter(r => r.header != null && !r.image);
+    const sizes = sendable.map(r => ({
+      chars: `${r.header}\n${r.body ?? ""}`.length,
+      headerTokens: estimateTokens(r.header ?? ""),
+      tokens: estimateTokens(`${r.header}\n${r.body ?? ""}`),
+      depth: r.depth ?? depthById[r.node.id] ?? 0,
+    }));
+    const budgeted = sendable.map((r, i) => i).filter(i => !exclude.has(sendable[i].node.id) && !expand.has(sendable[i].node.id));
+    const expandedCost = sendable.reduce((sum, r, i) => sum + (expand.has(r.node.id) && !exclude.has(r.node.id) ? sizes[i].tokens : 0), 0);
+    const primary = budgeted.filter(i => !sendable[i].linked);
+    const secondary = budgeted.filter(i => sendable[i].linked);
+    const primaryAlloc = allocateBudget(primary.map(i => sizes[i]), Math.max(0, textBudget - expandedCost));
+    const leftover = Math.max(0, textBudget - expandedCost - primaryAlloc.reduce((sum, a) => sum + a, 0));
+    const secondaryAlloc = allocateBudget(secondary.map(i => sizes[i]), leftover);
+    const allocations = new Array<number>(sendable.length).fill(0);
+    primary.forEach((i, k) => { allocations[i] = primaryAlloc[k]; });
+    secondary.forEach((i, k) => { allocations[i] = secondaryAlloc[k]; });
+
+    // Score the sections of notes that will be trimmed (not outlined), all in one go
+    const sectionScores = new Map<RawPart, number[]>();
+    const toScore = sendable.filter((r, i) =>
+      r.sections && r.file && !exclude.has(r.node.id) && allocations[i] < sizes[i].tokens && allocations[i] - sizes[i].headerTokens >= MIN_EXCERPT_TOKENS);
+    if (toScore.length > 0) {
+      const scores = await this.scoreSections(question, toScore.map(r => ({ file: r.file as TFile, body: r.body ?? "", sections: r.sections ?? [] })));
+      toScore.forEach((r, k) => sectionScores.set(r, scores[k]));
+    }
+    sendable.forEach((r, i) => {
+      if (expand.has(r.node.id) && !exclude.has(r.node.id)) allocations[i] = sizes[i].tokens;
+    });
+
+    const packed = new Map<RawPart, { part?: string; item: ContextBudgetItem }>();
+    sendable.forEach((r, i) => {
+      const { chars, headerTokens, tokens, depth } = sizes[i];
+      const allocated = allocations[i];
+      const body = r.body ?? "";
+      let part: string | undefined;
+      let mode: BudgetMode;
+      if (exclude.has(r.node.id)) {
+        mode = "excluded";
+      } else if (allocated >= tokens) {
+        part = body ? `${r.header}\n${body}` : r.header;
+        mode = "full";
+      } else if (allocated - headerTokens >= MIN_EXCERPT_TOKENS) {
+        const scores = sectionScores.get(r);
+        const excerpt = scores && r.sections
+          ? selectSections(body, r.sections, scores, allocated - headerTokens - 1)
+          : truncateToTokens(body, allocated - headerTokens - 1);
+        part = `${r.header}\n${excerpt}`;
+        mode = "trimmed";
+      } else {
+        const outline = truncateToTokens(outlineForBudget(body), allocated - headerTokens - 4);
+        if (outline) {
+          part = `${r.header} (outline)\n${outline}`;
+          mode = "summary";
+        } else {
+          mode = "dropped";
+        }
+      }
+      const used = part ? estimateTokens(part) : 0;
+      packed.set(r, { part, item: { id: r.node.id, label: getNodeLabel(r.node), type: r.node.type, depth, chars, tokens, allocated, used, mode, sent: part ?? "" } });
+    });
+    for (const r of raws) {
+      if (!r.image || !r.header) continue;
+      const sent = attached.has(r);
+      const mode: BudgetMode = exclude.has(r.node.id) ? "excluded" : sent ? "full" : "dropped";
+      const used = sent ? estimateTokens(r.header) + IMAGE_TOKEN_ESTIMATE : 0;
+      packed.set(r, {
+        part: sent ? r.header : undefined,
+        item: { id: r.node.id, label: getNodeLabel(r.node), type: r.node.type, depth: depthById[r.node.id] ?? 0, chars: r.image.data.length, tokens: IMAGE_TOKEN_ESTIMATE, allocated: sent ? IMAGE_TOKEN_ESTIMATE : 0, used, mode, sent: sent ? r.header : "" },
+      });
+    }
+    // Nodes with nothing sendable still get an item, so the review step shows why they're left out
+    for (const r of raws) {
+      if (r.header != null || !r.reason) continue;
+      const mode: BudgetMode = exclude.has(r.node.id) ? "excluded" : "skipped";
+      packed.set(r, {
+        item: { id: r.node.id, label: getNodeLabel(r.node), type: r.node.type, depth: depthById[r.node.id] ?? 0, chars: 0, tokens: 0, allocated: 0, used: 0, mode, sent: "", reason: r.reason },
+      });
+    }
+
+    // Multi-root: group parts under their branch heading (branches in first-seen order).
+    // Linked notes come after all of them, in a section and source list of their own.
+    const partsByBranch = new Map<string, string[]>();
+    const linkedParts: string[] = [];
     const sources: string[] = [];
-    for (const r of results) {
-      if (r.part) parts.push(r.part);
-      if (r.sources) sources.push(...r.sources);
+    const linkedSources: string[] = [];
+    const items: ContextBudgetItem[] = [];
+    for (const r of [...raws, ...linked]) {
+      const p = packed.get(r);
+      if (p?.part && r.linked) {
+        linkedParts.push(p.part);
+      } else if (p?.part) {
+        const branch = branchById?.[r.node.id] ?? "";
+        const list = partsByBranch.get(branch);
+        if (list) list.push(p.part); else partsByBranch.set(branch, [p.part]);
+      }
+      if (p) items.push(p.item);
+      if (r.sources && exclude.has(r.node.id)) continue;
+      if (r.sources) {
+        const dropped = r.image ? ` (not sent: over the ${imageLimit} images per Ask limit)` : " (omitted: over budget)";
+        const note = p?.item.mode === "summary" ? " (outline only)" : p?.item.mode === "dropped" ? dropped : "";
+        (r.linked ? linkedSources : sources).push(...r.sources.map(line => line + note));
+      }
     }
 
-    return { text: parts.join("\n\n"), sourcesMarkdown: sources.join("\n") };
+    const parts: string[] = [];
+    for (const [branch, list] of partsByBranch) {
+      if (branch) parts.push(`## ${branch}`);
+      parts.push(...list);
+    }
+    if (linkedParts.length > 0) parts.push("## Linked notes (secondary context)", ...linkedParts);
+    if (linkedSources.length > 0) sources.push("", "Linked from context notes:", ...linkedSources);
+    const used = items.reduce((sum, it) => sum + it.used, 0);
+    const images = raws.filter(r => attached.has(r)).map(r => r.image as ChatImage);
+    return {
+      text: parts.join("\n\n"),
+      sourcesMarkdown: sources.join("\n"),
+      budget: { budget: tokenBudget, used, items },
+      images: images.length > 0 ? images : undefined,
+    };
   }
 
-  /** OpenAI call (Chat Completions) */
-  private async callOpenAI(question: string, context: { text: string; sourcesMarkdown: string; }, signal?: AbortSignal): Promise<string> {
-    // Safety check: never call the API unless explicitly enabled
-    if (!this.settings.allowApiCalls) {
-      throw new Error("LLM API calls are disabled in settings.");
+  /**
+   * Relevance of each note's sections to the question: embedding similarity when semantic related
+   * search is enabled (falling back to keywords if the endpoint fails), otherwise query-term overlap.
+   */
+  private async scoreSections(question: string, notes: Array<{ file: TFile; body: string; sections: TextSection[] }>): Promise<number[][]> {
+    if (this.settings.relatedSearchMode !== "lexical" && question.trim()) {
+      try {
+        // Section vectors are cached by file version and offsets, so repacking (review toggles, fan-out
+        // questions) embeds only what is new: usually just the question
+        const store = await this.loadEmbeddingStore();
+        const qKey = `question:${question}`;
+        const keys = notes.map(n => n.sections.map(sec => `${n.file.path}@${n.file.stat.mtime}:${sec.start}-${sec.end}`));
+        const found = new Map<string, Float32Array>();
+        const missing = new Map<string, string>();
+        const want = (key: string, text: string) => {
+          const v = store.vector(key);
+          if (v) found.set(key, v); else missing.set(key, text);
+        };
+        want(qKey, question);
+        notes.forEach((n, i) => n.sections.forEach((sec, j) => want(keys[i][j], n.body.slice(sec.start, sec.end))));
+        if (missing.size > 0) {
+          const vectors = await this.embedTexts(Array.from(missing.values(), t => t.slice(0, 4000)));
+          Array.from(missing.keys()).forEach((key, k) => { found.set(key, vectors[k]); store.setVector(key, vectors[k]); });
+        }
+        const query = found.get(qKey) as Float32Array;
+        return keys.map(row => row.map(key => dot(query, found.get(key) as Float32Array)));
+      } catch (e) {
+        console.warn('Section embeddings failed; scoring by keywords', e);
+      }
     }
-    const base = this.settings.openAIBaseURL.replace(/\/+$/, "");
-    const headers = {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${this.settings.openAIKey}`,
-    } as Record<string, string>;
+    const terms = this.tokenizeQuery(question);
+    return notes.map(n => n.sections.map(sec => sectionKeywordScore(n.body.slice(sec.start, sec.end), terms)));
+  }
 
-    const system = (this.settings.systemPrompt && this.settings.systemPrompt.trim())
-      ? this.settings.systemPrompt
-      : DEFAULT_SYSTEM_PROMPT;
 
-    const user =
-`# Question
-${question}
+  /**
+   * Notes and note sections that context notes embed or link to, as secondary context parts. Embeds
+   * come before links, each in document order; a `#heading` or `^block` reference sends just that
+   * section (resolved through the metadata cache). References inside linked content are followed up
+   * to `maxDepth` levels. A target overlapping text already in the context, or reached earlier (a
+   * whole note after one of its sections, or the other way round), is not sent again.
+   */
+  private async collectLinkedParts(
+    from: Array<{ node: CanvasNode; file: TFile; depth: number }>,
+    maxDepth: number
+  ): Promise<Array<{ node: CanvasNode; header: string; body: string; sources: string[]; depth: number }>> {
+    type Source = { file: TFile; depth: number; range?: [number, number] };
+    const out: Array<{ node: CanvasNode; header: string; body: string; sources: string[]; depth: number }> = [];
+    // Offset ranges already sent, per file (a whole note is [0, Infinity])
+    const sent = new Map<string, Array<[number, number]>>(from.map(f => [f.file.path, [[0, Infinity]]]));
+    const overlapsSent = (path: string, range: [number, number]) =>
+      (sent.get(path) ?? []).some(([start, end]) => range[0] < end && start < range[1]);
+    let frontier: Source[] = from.map(f => ({ file: f.file, depth: f.depth }));
+    for (let level = 1; level <= maxDepth && frontier.length > 0; level++) {
+      const next: Source[] = [];
+      for (const src of frontier) {
+        const cache = this.app.metadataCache.getFileCache(src.file);
+        if (!cache) continue;
+        const inRange = (ref: { position: { start: { offset: number } } }) =>
+          !src.range || (ref.position.start.offset >= src.range[0] && ref.position.start.offset < src.range[1]);
+        const refs = [
+          ...(cache.embeds ?? []).filter(inRange).map(ref => ({ link: ref.link, embed: true })),
+          ...(cache.links ?? []).filter(inRange).map(ref => ({ link: ref.link, embed: false })),
+        ];
+        for (const { link, embed } of refs) {
+          if (out.length >= MAX_LINKED_PARTS) return out;
+          const { path, subpath } = parseLinktext(link);
+          const target = path ? this.app.metadataCache.getFirstLinkpathDest(path, src.file.path) : src.file;
+          if (!target || target.extension !== "md") continue;
+          const key = `${target.path}${subpath}`;
+          let range: [number, number] | undefined;
+          if (subpath) {
+            const targetCache = this.app.metadataCache.getFileCache(target);
+            const sub = targetCache ? resolveSubpath(targetCache, subpath) : null;
+            if (!sub) continue;
+            range = [sub.start.offset, sub.end?.offset ?? Infinity];
+          }
+          if (overlapsSent(target.path, range ?? [0, Infinity])) continue;
+          const ranges = sent.get(target.path);
+          if (ranges) ranges.push(range ?? [0, Infinity]); else sent.set(target.path, [range ?? [0, Infinity]]);
+
+          const content = await this.app.vault.cachedRead(target);
+          if (range && range[1] === Infinity) range = [range[0], content.length];
+          const body = range ? content.slice(range[0], range[1]).trim() : content;
+          const kind = embed ? "Embedded" : "Linked";
+          const node: CanvasNode = { id: `link:${key}`, type: "file", file: key, x: 0, y: 0, width: 0, height: 0 };
+          out.push({
+            node,
+            header: `### ${kind}: ${key} (from ${src.file.path})`,
+            body,
+            sources: [`- [[${key}]] (${kind.toLowerCase()} in [[${src.file.path}]])`],
+            depth: src.depth + level,
+          });
+          next.push({ file: target, depth: src.depth, range });
+        }
+      }
+      frontier = next;
+    }
+    return out;
+  }
 
-# Selected node + Upstream Context
-${context.text}
+  /**
+   * Text of a PDF, extracted locally with the PDF.js build bundled with Obsidian. Pages are read
+   * until `maxTokens` is reached. Cached per file version.
+   */
+  private extractPdfText(file: TFile, maxTokens: number): Promise<{ text: string; pages: number; total: number }> {
+    const key = `${file.path}@${file.stat.mtime}:${maxTokens}`;
+    const cached = this.pdfTextCache.get(key);
+    if (cached) return cached;
+    const pending = (async () => {
+      const pdfjs = await loadPdfJs() as PdfJs;
+      const doc = await pdfjs.getDocument({ data: new Uint8Array(await this.app.vault.readBinary(file)) }).promise;
+      try {
+        const pages: string[] = [];
+        let tokens = 0;
+        for (let i = 1; i <= doc.numPages && tokens < maxTokens; i++) {
+          const content = await (await doc.getPage(i)).getTextContent();
+          const text = content.items.map(it => (it.str ?? "") + (it.hasEOL ? "\n" : " ")).join("").replace(/[ \t]+\n/g, "\n").trim();
+          pages.push(text);
+          tokens += estimateTokens(text);
+        }
+        return { text: truncateToTokens(pages.filter(Boolean).join("\n\n"), maxTokens), pages: pages.length, total: doc.numPages };
+      } finally {
+        doc.destroy?.();
+      }
+    })();
+    // Small cache; failures are not kept
+    if (this.pdfTextCache.size >= 32) this.pdfTextCache.clear();
+    this.pdfTextCache.set(key, pending);
+    pending.catch(() => this.pdfTextCache.delete(key));
+    return pending;
+  }
 
-# output
-Keep response under ${this.settings.maxTokens} tokens.
+  /** Build the provider request shared by the buffered and streaming calls */
+  private buildChatRequest(question: string, context: MaterializedContext, profile: ModelProfile, stream: boolean, output: AnswerOutput = "note", template?: PromptTemplate): { provider: LLMProvider; url: string; headers: Record<string, string>; body: string } {
+    const provider = getProvider(profile.provider);
+    const req = provider.buildRequest(
+      { baseURL: profile.baseURL || provider.defaultBaseURL, apiKey: profile.apiKey },
+      {
+        model: profile.model,
+        temperature: profile.temperature,
+        maxTokens: profile.maxTokens,
+        messages: this.buildMessages(question, context, profile, output, template),
+        stream,
+        responseSchema: output === "expand" ? { name: "cards", schema: EXPANDED_CARDS_SCHEMA } : undefined,
+      }
+    );
+    return { provider, ...req };
+  }
+
+  /**
+   * The conversation sent to the model: system prompt, context and question (plus earlier turns in
+   * thread mode). A prompt template replaces the system prompt and wraps the question.
+   */
+  private buildMessages(question: string, context: MaterializedContext, profile: ModelProfile, output: AnswerOutput = "note", template?: PromptTemplate): ChatMessage[] {
+    const system = template?.system.trim()
+      ? template.system
+      : (profile.systemPrompt && profile.systemPrompt.trim())
+        ? profile.systemPrompt
+        : DEFAULT_SYSTEM_PROMPT;
+
+    const outputSpec = output === "expand"
+      ? `# output
+Respond with JSON only, no prose and no code fence:
+{"cards": [{"title": "…", "body": "Markdown, under 120 words", "relation": "2–5 words: how this card relates to the selected node"}]}
+Give ${REQUESTED_CARDS.min}–${REQUESTED_CARDS.max} cards, each a distinct idea. Keep the whole response under ${profile.maxTokens} tokens.
+`
+      : `# output
+Keep response under ${profile.maxTokens} tokens.
 # Title (H1)
 Content
 `;
-    // Chat Completions API
-    const url = `${base}/v1/chat/completions`;
-    const payload = {
-      model: this.settings.openAIModel,
-      temperature: this.settings.temperature,
-      max_tokens: this.settings.maxTokens,
-      messages: [
-        { role: "system", content: system },
-        { role: "user", content: user }
-      ]
+    const messages: ChatMessage[] = [{ role: "system", content: system }];
+    const turns = context.turns ?? [];
+    // Attached images travel with the message that carries the context
+    const images = context.images?.length ? { images: context.images } : {};
+    if (turns.length === 0) {
+      messages.push({
+        role: "user",
+        content: template
+          ? `${renderPromptTemplate(template.prompt, question, context.text)}\n\n${outputSpec}`
+          :
+`# Question
+${question}
+
+${PROMPT_CONTEXT_HEADING}
+${context.text}
+
+${outputSpec}`,
+        ...images,
+      });
+    } else {
+      // Thread mode: the context rides along with the first question, then the branch's earlier
+      // exchanges replay as alternating user/assistant messages before the new question.
+      messages.push({
+        role: "user",
+        content:
+`# Upstream Context
+${context.text}
+
+# Question
+${turns[0].question}`,
+        ...images,
+      });
+      messages.push({ role: "assistant", content: turns[0].answer });
+      for (const t of turns.slice(1)) {
+        messages.push({ role: "user", content: t.question });
+        messages.push({ role: "assistant", content: t.answer });
+      }
+      messages.push({
+        role: "user",
+        content: template
+          ? `${renderPromptTemplate(template.prompt, question, "(the upstream context above)")}\n\n${outputSpec}`
+          :
+`# Question
+${question}
+
+${outputSpec}`,
+      });
+    }
+    return messages;
+  }
+
+  /**
+   * Streaming LLM call through the configured provider (SSE or NDJSON).
+   * Uses fetch because requestUrl buffers the whole body; if fetch itself fails (e.g. blocked by CORS)
+   * the request is repeated unstreamed through requestUrl. Each content delta is passed to `onDelta`
+   * as it arrives; the full text is returned when the stream ends. No retries: once tokens have been
+   * shown, replaying the request would duplicate them. A stalled stream (no bytes for the idle
+   * timeout) is aborted like a user cancel, so the caller keeps whatever arrived.
+   */
+  private async callOpenAIStream(
+    question: string,
+    context: MaterializedContext,
+    profile: ModelProfile,
+    onDelta: (chunk: string) => void,
+    signal?: AbortSignal,
+    template?: PromptTemplate
+  ): Promise<ChatResult> {
+    // Safety check: never call the API unless explicitly enabled
+    if (!this.settings.allowApiCalls) {
+      throw new Error("LLM API calls are disabled in settings.");
+    }
+    const { provider, url, headers, body } = this.buildChatRequest(question, context, profile, true, "note", template);
+    const idleTimeoutMs = 30000;
+
+    // Link the caller's signal with our own idle-timeout controller
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    if (signal) {
+      if (signal.aborted) controller.abort();
+      else signal.addEventListener('abort', onAbort, { once: true });
+    }
+    let idleTimer: number | null = null;
+    const resetIdle = () => {
+      if (idleTimer != null) window.clearTimeout(idleTimer);
+      idleTimer = window.setTimeout(() => controller.abort(), idleTimeoutMs);
     };
 
+    let full = "";
+    let usage: TokenUsage | undefined;
+    try {
+      resetIdle();
+      const response = await fetch(url, {
+        method: "POST",
+        headers,
+        body,
+        signal: controller.signal,
+      }).catch((err: unknown) => {
+        // Renderer fetch is subject to CORS (e.g. Ollama without OLLAMA_ORIGINS); requestUrl is not
+        if (controller.signal.aborted || !(err instanceof TypeError)) throw err;
+        console.warn(`Streaming request to ${provider.label} failed (${err.message}); retrying without streaming`);
+        return null;
+      });
+      if (!response) {
+        // The buffered call has its own timeout; the answer is shown in one piece
+        if (idleTimer != null) window.clearTimeout(idleTimer);
+        const result = await this.callOpenAI(question, context, profile, signal, "note", template);
+        onDelta(result.text);
+        return result;
+      }
+
+      if (!response.ok) {
+        const bodyText = await response.text().catch(() => '');
+        throw providerError(provider, response.status, bodyText);
+      }
+      if (!response.body) throw new Error("Streaming is not supported by this environment.");
+
+      const streamed = await readChatStream(provider, response.body, onDelta, resetIdle);
+      full = streamed.text;
+      usage = streamed.usage;
+    } catch (err: unknown) {
+      if (controller.signal.aborted) {
+        const e = new Error(signal?.aborted ? "Aborted" : "Stream stalled");
+        Object.defineProperty(e, 'name', { value: 'AbortError' });
+        throw e;
+      }
+      throw err;
+    } finally {
+      if (idleTimer != null) window.clearTimeout(idleTimer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (!full.trim()) throw new Error("No content returned from model.");
+    return { text: full.trim(), usage };
+  }
+
+  /** LLM call through the configured provider (buffered, with retries) */
+  private async callOpenAI(question: string, context: MaterializedContext, profile: ModelProfile, signal?: AbortSignal, output: AnswerOutput = "note", template?: PromptTemplate): Promise<ChatResult> {
+    // Safety check: never call the API unless explicitly enabled
+    if (!this.settings.allowApiCalls) {
+      throw new Error("LLM API calls are disabled in settings.");
+    }
+    const { provider, url, headers, body } = this.buildChatRequest(question, context, profile, false, output, template);
+    return await this.sendChatRequest(provider, url, headers, body, signal);
+  }
+
+  /** POST a built chat request and read the answer; `attempts` counts retries too */
+  private async sendChatRequest(provider: LLMProvider, url: string, headers: Record<string, string>, body: string, signal?: AbortSignal): Promise<ChatResult> {
     // Resilience: retries with exponential backoff + jitter and client-side timeout
     const maxAttempts = 3;
     const baseDelayMs = 800;
@@ -1100,7 +4680,9 @@ Content
           url,
           method: "POST",
           headers,
-          body: JSON.stringify(payload),
+          body,
+          // Inspect non-2xx responses ourselves so provider errors can be mapped
+          throw: false,
         });
 
         const timeoutPromise = new Promise<never>((_, reject) => {
@@ -1124,14 +4706,6 @@ Content
         const status: number = response?.status ?? 0;
         if (status < 200 || status >= 300) {
           const bodyText: string = response?.text ?? '';
-          // Attempt to parse a structured error for safer logging
-          let errCode: string | undefined;
-          let errMsg: string | undefined;
-          try {
-            const parsed = bodyText ? JSON.parse(bodyText) : undefined;
-            errCode = parsed?.error?.code || parsed?.error?.type || parsed?.code;
-            errMsg = parsed?.error?.message || parsed?.message;
-          } catch { /* ignore */ }
           // Decide on retry using status and Retry-After
           if (attempt < maxAttempts && shouldRetry(status)) {
             const retryAfterRaw = (response.headers?.['retry-after'] ?? response.headers?.['Retry-After']);
@@ -1147,19 +4721,18 @@ Content
             ]);
             continue;
           }
-          const safeDetail = errMsg ? sanitizeForLog(errMsg) : `(response length ${bodyText.length})`;
-          const codePart = errCode ? ` ${errCode}` : '';
-          throw new Error(`OpenAI API error ${status}${codePart}: ${safeDetail}`);
+          throw providerError(provider, status, bodyText);
         }
 
         // Success
         let json: unknown;
         try { json = (response as unknown as { json?: unknown; text?: string })?.json ?? JSON.parse(response?.text ?? '{}'); } catch { json = {}; }
-        const text: string | undefined = (json as { choices?: Array<{ message?: { content?: string } }> })?.choices?.[0]?.message?.content?.trim();
+        const text: string | undefined = provider.parseResponse(json)?.trim();
         if (!text) throw new Error("No content returned from model.");
-        return text;
+        return { text, usage: provider.parseUsage(json), attempts: attempt };
       } catch (err: unknown) {
         if (err && typeof err === 'object' && (err as { name?: unknown }).name === 'AbortError') throw err; // respect user cancellation/timeout
+        if (err && typeof err === 'object' && typeof (err as { status?: unknown }).status === 'number') throw err; // API error, retry already decided above
         if (attempt >= maxAttempts) throw err;
         // Unknown/network error: one more retry with backoff
         const delay = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt - 1)) + Math.floor(Math.random() * 250);
@@ -1174,32 +4747,97 @@ Content
     }
   }
 
-  /** Cancel any in-flight ask */
-  private cancelAsk(reason?: string) {
-    try {
-      if (this.askAbortController) {
-        this.askAbortController.abort();
-      }
-    } finally {
-      this.askAbortController = null;
-      this.setBusy(false);
-    }
-    if (reason) console.warn(reason);
+  /**
+   * Create a note at `path`, resolving a name collision per settings: a numbered or timestamped
+   * sibling name, a prompt, or (opt-in) an overwrite that first backs up the old content.
+   * Returns null if the user canceled the prompt. Calls are serialized so concurrent saves (fan-out)
+   * never pick the same free name.
+   */
+  private createNote(path: string, body: string): Promise<TFile | null> {
+    const run = this.noteCreateChain.then(() => this.createNoteNow(path, body));
+    this.noteCreateChain = run.catch(() => undefined);
+    return run;
   }
 
-  /** Create or overwrite note */
-  private async createOrOverwrite(path: string, body: string): Promise<TFile> {
-    const existing = this.app.vault.getAbstractFileByPath(path);
-    if (existing instanceof TFile) {
-      await this.app.vault.modify(existing, body);
-      return existing;
-    }
+  private async createNoteNow(path: string, body: string): Promise<TFile | null> {
     // ensure folder
     const dir = path.split("/").slice(0, -1).join("/");
     if (dir && !this.app.vault.getAbstractFileByPath(dir)) {
       await this.app.vault.createFolder(dir);
     }
-    return await this.app.vault.create(path, body);
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (!existing) return await this.app.vault.create(path, body);
+
+    let mode = this.settings.onNoteCollision;
+    if (mode === "prompt") {
+      const chosen = await this.promptForCollision(path);
+      if (!chosen) return null;
+      mode = chosen;
+    }
+    const base = path.replace(/\.md$/, "");
+    const stamp = moment().format("YYYY-MM-DD HHmmss");
+    if (mode === "overwrite" && existing instanceof TFile) {
+      const backupPath = this.freeNotePath(`${base} (backup ${stamp})`);
+      await this.app.vault.create(backupPath, await this.app.vault.read(existing));
+      await this.app.vault.modify(existing, body);
+      new Notice(`Overwrote ${path} • previous version saved as ${backupPath}`);
+      return existing;
+    }
+    const target = this.freeNotePath(mode === "timestamp" ? `${base} ${stamp}` : base);
+    return await this.app.vault.create(target, body);
+  }
+
+  /** `${base}.md`, or the first of `${base} 1.md`, `${base} 2.md`, … that doesn't exist */
+  private freeNotePath(base: string): string {
+    let candidate = `${base}.md`;
+    for (let i = 1; this.app.vault.getAbstractFileByPath(candidate); i++) candidate = `${base} ${i}.md`;
+    return normalizePath(candidate);
+  }
+
+  /** Ask how to save a note whose path is taken (null = don't save) */
+  private promptForCollision(path: string): Promise<Exclude<NoteCollisionMode, "prompt"> | null> {
+    return new Promise(resolve => {
+      let resolved = false;
+
+      class CollisionModal extends Modal {
+        onOpen(): void {
+          const { contentEl } = this;
+          contentEl.empty();
+          contentEl.createEl("h2", { text: "Note already exists" });
+          contentEl.createEl("div", { text: path, cls: "mod-muted" });
+
+          const btnRow = contentEl.createEl("div", { cls: "ask-canvas-btn-row" });
+          const choices: Array<[Exclude<NoteCollisionMode, "prompt">, string]> = [
+            ["suffix", "Keep both (numbered)"],
+            ["timestamp", "Keep both (timestamp)"],
+            ["overwrite", "Overwrite (back up old note)"],
+          ];
+          for (const [mode, text] of choices) {
+            const btn = btnRow.createEl("button", { text });
+            if (mode === "suffix") btn.classList.add("mod-cta");
+            if (mode === "overwrite") btn.classList.add("mod-warning");
+            btn.addEventListener("click", () => {
+              if (!resolved) {
+                resolved = true;
+                this.close();
+                resolve(mode);
+              }
+            });
+          }
+          const cancelBtn = btnRow.createEl("button", { text: "Don't save", cls: "ask-canvas-btn-cancel" });
+          cancelBtn.addEventListener("click", () => this.close());
+        }
+        onClose(): void {
+          this.contentEl.empty();
+          if (!resolved) {
+            resolved = true;
+            resolve(null);
+          }
+        }
+      }
+
+      new CollisionModal(this.app).open();
+    });
   }
 
   
@@ -1266,40 +4904,93 @@ Content
     return { x: snap(parent.x), y: snap(baseY) };
   }
 
-  /** Always add a new file node as a child of the given parent node and connect it with a labeled edge. */
-  private applyResultAsChild(data: CanvasData, parent: CanvasNode, newFilePath: string, questionLabel: string): CanvasData {
-    // Mutate in place to avoid cloning large arrays
-
-    // Determine a free position directly below the parent (avoiding overlaps)
-    const width = parent.width;
-    const height = parent.height;
-    const { x, y } = this.findFreeSpotBelow(data, parent, width, height, 120);
-
-    const fileNode: CanvasNode = {
-      id: uuid(),
-      type: "file",
-      x,
-      y,
-      width,
-      height,
-      file: newFilePath,
-      // Use a concise node label: first 9 words of the question, with ellipsis if longer
-      label: truncateWords(questionLabel, DEFAULT_LABEL_WORDS),
-    };
-    data.nodes.push(fileNode);
-
+  /**
+   * Always add a new file node as a child of the given parent node and connect it with a labeled edge.
+   * The additions are pushed into `data` (so later placements avoid them) and returned as a patch.
+   * `extraParents` (other roots of a multi-node Ask) are connected to the same child, which is then
+   * placed below the centroid of all parents instead of below `parent`.
+   */
+  private applyResultAsChild(data: CanvasData, parent: CanvasNode, result: ResultContent, questionLabel: string, extraParents: CanvasNode[] = []): CanvasPatch {
+    // Determine a free position directly below the parent (avoiding overlaps); text cards are sized to their text
+    const { width, height } = "text" in result ? textCardSize(result.text) : parent;
+    let anchor = parent;
+    if (extraParents.length > 0) {
+      const all = [parent, ...extraParents];
+      const cx = all.reduce((sum, n) => sum + n.x + n.width / 2, 0) / all.length;
+      const bottom = Math.max(...all.map(n => n.y + n.height));
+      anchor = { id: "", type: "group", x: cx - width / 2, y: bottom, width, height: 0 };
+    }
+    const { x, y } = this.findFreeSpotBelow(data, anchor, width, height, 120);
+
+    const resultNode: CanvasNode = "text" in result
+      ? { id: uuid(), type: "text", x, y, width, height, text: result.text }
+      : {
+        id: uuid(),
+        type: "file",
+        x,
+        y,
+        width,
+        height,
+        file: result.file,
+        // Use a concise node label: first 9 words of the question, with ellipsis if longer
+        label: truncateWords(questionLabel, DEFAULT_LABEL_WORDS),
+      };
     // Connect parent → child with a vertical edge for clearer hierarchy
-    data.edges.push({
+    const edges: CanvasEdge[] = [{
       id: uuid(),
       fromNode: parent.id,
-      toNode: fileNode.id,
+      toNode: resultNode.id,
       fromSide: "bottom",
       toSide: "top",
       // Use a concise edge label: first 9 words of the question, with ellipsis if longer
       label: truncateWords(questionLabel, DEFAULT_LABEL_WORDS) || "answer",
+    }];
+    for (const p of extraParents) {
+      edges.push({ id: uuid(), fromNode: p.id, toNode: resultNode.id, fromSide: "bottom", toSide: "top" });
+    }
+
+    data.nodes.push(resultNode);
+    data.edges.push(...edges);
+    return { nodes: [resultNode], edges };
+  }
+
+  /**
+   * Add expanded cards as text nodes in one row centered below the parent(s). The row is placed as a
+   * whole with findFreeSpotBelow, so the cards stay together and don't overlap existing nodes. Every
+   * parent gets an edge to every card, labeled with the card's relation.
+   */
+  private applyCardsAsChildren(data: CanvasData, parent: CanvasNode, cards: ExpandedCard[], extraParents: CanvasNode[] = []): CanvasPatch {
+    const gap = 40;
+    const sized = cards.map(card => {
+      const text = `## ${card.title}\n\n${card.body}`;
+      return { card, text, ...textCardSize(text) };
     });
+    const rowWidth = sized.reduce((sum, c) => sum + c.width, 0) + gap * (sized.length - 1);
+    const rowHeight = Math.max(...sized.map(c => c.height));
+
+    const all = [parent, ...extraParents];
+    const cx = all.reduce((sum, n) => sum + n.x + n.width / 2, 0) / all.length;
+    const bottom = Math.max(...all.map(n => n.y + n.height));
+    const anchor: CanvasNode = { id: parent.id, type: "group", x: cx - rowWidth / 2, y: bottom, width: rowWidth, height: 0 };
+    const { x, y } = this.findFreeSpotBelow(data, anchor, rowWidth, rowHeight, 120);
+
+    const nodes: CanvasNode[] = [];
+    const edges: CanvasEdge[] = [];
+    let nextX = x;
+    for (const c of sized) {
+      const node: CanvasNode = { id: uuid(), type: "text", x: nextX, y, width: c.width, height: c.height, text: c.text };
+      nextX += c.width + gap;
+      nodes.push(node);
+      for (const p of all) {
+        const edge: CanvasEdge = { id: uuid(), fromNode: p.id, toNode: node.id, fromSide: "bottom", toSide: "top" };
+        if (c.card.relation) edge.label = truncateWords(c.card.relation, DEFAULT_LABEL_WORDS);
+        edges.push(edge);
+      }
+    }
 
-    return data;
+    data.nodes.push(...nodes);
+    data.edges.push(...edges);
+    return { nodes, edges };
   }
 
   /**
@@ -1373,10 +5064,47 @@ Content
     return out.join('\n');
   }
 
+  /**
+   * Save a text card's text as a note and turn the card into a file node for it. The node keeps its
+   * id, position and color, so its edges stay connected.
+   */
+  async promoteTextCard(nodeIds?: string[]) {
+    const canvasFile = this.app.workspace.getActiveFile();
+    if (!canvasFile || canvasFile.extension !== "canvas") {
+      new Notice("Open a .canvas file first.");
+      return;
+    }
+    const data = await this.readCanvas(canvasFile);
+    const cards = data.nodes.filter(n => n.type === "text");
+    if (cards.length === 0) {
+      new Notice("No text cards on this canvas.");
+      return;
+    }
+    const selected = this.selectedNodes(data, canvasFile, nodeIds).filter(n => n.type === "text");
+    const card = selected.length === 1 ? selected[0] : await this.pickNode(selected.length > 1 ? selected : cards);
+    if (!card) return;
+    const text = extractTextField(card.text) ?? "";
+    if (!text.trim()) {
+      new Notice("The text card is empty.");
+      return;
+    }
+
+    const outFolder = this.settings.outputFolder || (canvasFile.parent?.path ?? "");
+    const title = text.match(/^\s*#\s+(.+?)\s*$/m)?.[1] ?? firstLine(text);
+    const targetPath = normalizePath((outFolder ? outFolder + "/" : "") + sanitizeFilename(title) + ".md");
+    const note = await this.createNote(targetPath, text);
+    if (!note) return;
+
+    const promoted: CanvasNode = { ...card, type: "file", file: note.path };
+    delete promoted.text;
+    await this.applyCanvasPatch(canvasFile, { nodes: [], edges: [], update: [promoted] });
+    new Notice(`Promoted text card → ${note.path}`);
+  }
+
   /**
    * Export chain of nodes and edges starting from a selected node.
    */
-  async exportChain() {
+  async exportChain(nodeIds?: string[]) {
     const canvasFile = this.app.workspace.getActiveFile();
     if (!canvasFile || canvasFile.extension !== "canvas") {
       new Notice("Open a .canvas file first.");
@@ -1390,11 +5118,11 @@ Content
     }
 
     // 1) Pick the root node for chain export
-    const root = await this.pickNode(data, canvasFile.path);
+    const root = await this.pickOneNode(data, canvasFile, nodeIds);
     if (!root) return;
 
     // 2) Collect upstream nodes and edges
-    const upstreamInfo = this.collectPredecessorsUpToDepth(data, root.id, 10);
+    const upstreamInfo = this.collectUpstream(data, root.id, 10);
     // Reverse so the furthest upstream node is first, root is last
     const upstreamNodes = [...upstreamInfo.nodes.reverse(), root];
     const upstreamNodeIds = new Set(upstreamNodes.map(n => n.id));
@@ -1420,7 +5148,8 @@ Content
     }
     const baseName = sanitizeFilename(`Chain - ${nameForFilename}`);
     const targetPath = normalizePath((outFolder ? outFolder + "/" : "") + baseName + ".md");
-    const newNote = await this.createOrOverwrite(targetPath, fileContent);
+    const newNote = await this.createNote(targetPath, fileContent);
+    if (!newNote) return;
 
     new Notice(`Exported chain to ${newNote.path}`);
   }
@@ -1434,9 +5163,12 @@ Content
    * Followed by "# References" with joined list of file/link refs used.
    */
   async generateChainMarkdown(nodes: CanvasNode[], edges: CanvasEdge[]): Promise<string> {
-    // Build a quick lookup for the best incoming TOP edge per node (prefer fromSide=bottom)
+    // Build a quick lookup for the best incoming TOP edge per node (prefer fromSide=bottom).
+    // Nodes with no TOP edge (reached through a side edge in full DAG traversal) fall back to any incoming edge.
     const incomingTopByToNode = new Map<string, CanvasEdge>();
+    const incomingAnyByToNode = new Map<string, CanvasEdge>();
     for (const e of edges) {
+      if (!incomingAnyByToNode.has(e.toNode)) incomingAnyByToNode.set(e.toNode, e);
       if (e.toSide !== 'top') continue;
       const existing = incomingTopByToNode.get(e.toNode);
       if (!existing) {
@@ -1451,7 +5183,7 @@ Content
     const tasks: Array<() => Promise<{ part?: string; refs?: string[] }>> = [];
     for (const n of nodes) {
       // Determine incoming TOP-edge label (the question) for this node if available
-      const incoming = incomingTopByToNode.get(n.id);
+      const incoming = incomingTopByToNode.get(n.id) ?? incomingAnyByToNode.get(n.id);
       const edgeLabel = (incoming?.label ?? '').trim();
       const edgeLabelQuoted = edgeLabel
         ? edgeLabel.split(/\r?\n/).map(l => `> ${l}`).join('\n')
@@ -1514,6 +5246,256 @@ Content
 
 }
 
+/** ---------- Ask history view ---------- */
+/**
+ * Side panel over the run log: newest runs first, each expandable to its parameters, messages and
+ * response. A run can be sent again, and any two checked runs can be diffed.
+ */
+class AskHistoryView extends ItemView {
+  private plugin: CanvasAskPlugin;
+  private selected: string[] = [];
+  private expanded = new Set<string>();
+  private renderSeq = 0;
+
+  constructor(leaf: WorkspaceLeaf, plugin: CanvasAskPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string { return ASK_HISTORY_VIEW; }
+  getDisplayText(): string { return "Ask history"; }
+  getIcon(): string { return "history"; }
+
+  async onOpen() { await this.refresh(); }
+  async onClose() { this.contentEl.empty(); }
+
+  async refresh(reload = false) {
+    const seq = ++this.renderSeq;
+    const entries = await this.plugin.readRunLog(reload);
+    if (seq !== this.renderSeq) return; // a newer refresh is under way
+    const byId = new Map(entries.map(e => [e.id, e] as const));
+    this.selected = this.selected.filter(id => byId.has(id));
+
+    const el = this.contentEl;
+    el.empty();
+    el.addClass("ask-canvas-history");
+    const bar = el.createEl("div", { cls: "ask-canvas-btn-row" });
+    const diffBtn = bar.createEl("button", { text: "Diff selected" });
+    diffBtn.disabled = this.selected.length !== 2;
+    diffBtn.addEventListener("click", () => {
+      const [a, b] = this.selected.map(id => byId.get(id));
+      if (a && b) this.showDiff(a, b);
+    });
+    bar.createEl("button", { text: "Refresh" }).addEventListener("click", () => this.refresh(true));
+
+    if (entries.length === 0) {
+      el.createEl("div", { text: this.plugin.settings.logRuns ? "No runs logged yet." : "The run log is off (see settings).", cls: "mod-muted" });
+      return;
+    }
+    el.createEl("div", { text: "Check two runs to diff them.", cls: "mod-muted" });
+
+    // Newest first; the log can grow long, so only the latest runs are listed
+    for (const e of entries.slice(-200).reverse()) {
+      const item = el.createEl("div", { cls: `ask-canvas-history-item ask-canvas-history-status-${e.status}` });
+      const top = item.createEl("label", { cls: "ask-canvas-review-top" });
+      const cb = top.createEl("input", { type: "checkbox" });
+      cb.checked = this.selected.includes(e.id);
+      cb.addEventListener("change", () => {
+        this.selected = this.selected.filter(id => id !== e.id);
+        // Keep the two most recent checks
+        if (cb.checked) this.selected = [...this.selected, e.id].slice(-2);
+        this.refresh();
+      });
+      const usage = e.usage ? ` • ${formatUsage(e.usage)} tokens` : "";
+      top.createEl("span", { text: `${moment(e.started).format("YYYY-MM-DD HH:mm:ss")} • ${e.params.model} • ${(e.timings.totalMs / 1000).toFixed(1)}s${usage}${e.status === "ok" ? "" : ` • ${e.status}`}` });
+      const summary = item.createEl("div", { text: truncateWords(e.question, 16), cls: "ask-canvas-history-question" });
+      item.createEl("div", { text: `${e.canvas}${e.rerunOf ? " • re-run" : ""}`, cls: "mod-muted" });
+      summary.addEventListener("click", () => {
+        if (this.expanded.has(e.id)) this.expanded.delete(e.id); else this.expanded.add(e.id);
+        this.refresh();
+      });
+      if (this.expanded.has(e.id)) this.renderDetails(item, e);
+    }
+  }
+
+  private renderDetails(item: HTMLElement, e: RunLogEntry) {
+    const details = item.createEl("div", { cls: "ask-canvas-history-details" });
+    const timing = [
+      `${(e.timings.totalMs / 1000).toFixed(2)}s total`,
+      e.timings.firstTokenMs != null ? `first token after ${(e.timings.firstTokenMs / 1000).toFixed(2)}s` : "",
+      e.timings.attempts && e.timings.attempts > 1 ? `${e.timings.attempts} attempts` : "",
+    ].filter(Boolean).join(", ");
+    details.createEl("div", { text: `${e.profileName} • ${e.provider} • ${e.baseURL}` });
+    details.createEl("div", { text: `temperature ${e.params.temperature}, max tokens ${e.params.maxTokens}${e.params.stream ? ", streamed" : ""}, output: ${e.output}${e.template ? `, template: ${e.template}` : ""}` });
+    details.createEl("div", { text: `${e.nodeIds.length} nodes from ${e.rootIds.join(", ")} • ${timing}` });
+    for (const m of e.messages) {
+      const d = details.createEl("details");
+      d.createEl("summary", { text: `${m.role} (${m.content.length} chars)` });
+      d.createEl("pre", { text: m.content, cls: "ask-canvas-review-pre" });
+    }
+    if (e.error) details.createEl("div", { text: `Error: ${e.error}`, cls: "ask-canvas-history-error" });
+    if (e.response != null) {
+      const d = details.createEl("details");
+      d.open = true;
+      d.createEl("summary", { text: "response" });
+      d.createEl("pre", { text: e.response, cls: "ask-canvas-review-pre" });
+    }
+
+    const row = details.createEl("div", { cls: "ask-canvas-btn-row" });
+    const rerunBtn = row.createEl("button", { text: "Re-run" });
+    rerunBtn.addEventListener("click", async () => {
+      rerunBtn.disabled = true;
+      rerunBtn.setText("Running…");
+      try {
+        const rerun = await this.plugin.rerunFromLog(e);
+        this.showDiff(e, rerun);
+      } catch (err) {
+        console.error(err);
+        new Notice(`Re-run failed: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        this.refresh();
+      }
+    });
+  }
+
+  /** Line diff of two runs' parameters, messages and responses; long unchanged stretches are folded */
+  private showDiff(a: RunLogEntry, b: RunLogEntry) {
+    // Older run on the left
+    const [from, to] = a.started <= b.started ? [a, b] : [b, a];
+    const lines = diffLines(runDiffText(from), runDiffText(to));
+
+    class RunDiffModal extends Modal {
+      onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h2", { text: "Run diff" });
+        contentEl.createEl("div", { text: `− ${moment(from.started).format("YYYY-MM-DD HH:mm:ss")} (${from.params.model})`, cls: "ask-canvas-diff-del" });
+        contentEl.createEl("div", { text: `+ ${moment(to.started).format("YYYY-MM-DD HH:mm:ss")} (${to.params.model})`, cls: "ask-canvas-diff-add" });
+        if (!lines.some(l => l.op !== " ")) contentEl.createEl("div", { text: "The runs are identical.", cls: "mod-muted" });
+
+        const pre = contentEl.createEl("pre", { cls: "ask-canvas-diff" });
+        const context = 3;
+        for (let i = 0; i < lines.length; i++) {
+          if (lines[i].op === " ") {
+            // Fold unchanged lines more than `context` away from any change
+            let end = i;
+            while (end < lines.length && lines[end].op === " ") end++;
+            const keepHead = i === 0 ? 0 : context;
+            const keepTail = end === lines.length ? 0 : context;
+            if (end - i > keepHead + keepTail + 1) {
+              for (let k = i; k < i + keepHead; k++) pre.createEl("div", { text: `  ${lines[k].line}` });
+              pre.createEl("div", { text: `  … ${end - i - keepHead - keepTail} unchanged lines`, cls: "mod-muted" });
+              for (let k = end - keepTail; k < end; k++) pre.createEl("div", { text: `  ${lines[k].line}` });
+              i = end - 1;
+              continue;
+            }
+          }
+          const l = lines[i];
+          pre.createEl("div", {
+            text: `${l.op} ${l.line}`,
+            cls: l.op === "+" ? "ask-canvas-diff-add" : l.op === "-" ? "ask-canvas-diff-del" : undefined,
+          });
+        }
+      }
+      onClose(): void { this.contentEl.empty(); }
+    }
+
+    const modal = new RunDiffModal(this.app);
+    modal.modalEl.addClass("ask-canvas-diff-modal");
+    modal.open();
+  }
+}
+
+/** ---------- Ask jobs view ---------- */
+const JOB_STATUS_LABELS: Record<AskJobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  done: "Finished",
+  failed: "Failed",
+  canceled: "Canceled",
+};
+
+function jobTimingText(job: AskJob): string {
+  const since = job.startedAt ?? job.queuedAt;
+  const elapsed = ((job.finishedAt ?? Date.now()) - since) / 1000;
+  const timing = job.status === "queued" ? `waiting ${elapsed.toFixed(0)}s` : `${elapsed.toFixed(1)}s`;
+  return `${job.canvas} • ${timing}`;
+}
+
+/**
+ * Side panel over the job queue, grouped by status: canvas, question, elapsed time and error for
+ * each job, with cancel or retry. Clicking a finished job reveals its node(s) on the canvas.
+ */
+class AskJobsView extends ItemView {
+  private plugin: CanvasAskPlugin;
+  // Elapsed-time line of each rendered job
+  private timings = new Map<AskJob, HTMLElement>();
+
+  constructor(leaf: WorkspaceLeaf, plugin: CanvasAskPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string { return ASK_JOBS_VIEW; }
+  getDisplayText(): string { return "Ask jobs"; }
+  getIcon(): string { return "list-checks"; }
+
+  async onOpen() { this.render(); }
+  async onClose() { this.contentEl.empty(); }
+
+  render() {
+    const queue = this.plugin.jobs;
+    const el = this.contentEl;
+    el.empty();
+    this.timings.clear();
+    el.addClass("ask-canvas-jobs");
+    const bar = el.createEl("div", { cls: "ask-canvas-btn-row" });
+    const cancelAll = bar.createEl("button", { text: "Cancel all" });
+    cancelAll.disabled = queue.running + queue.queued === 0;
+    cancelAll.addEventListener("click", () => queue.cancelAll());
+    bar.createEl("button", { text: "Clear finished" }).addEventListener("click", () => queue.clearFinished());
+
+    if (queue.jobs.length === 0) {
+      el.createEl("div", { text: "No Ask jobs yet.", cls: "mod-muted" });
+      return;
+    }
+    const order: AskJobStatus[] = ["running", "queued", "failed", "done", "canceled"];
+    for (const status of order) {
+      // Newest first within each group
+      const jobs = queue.jobs.filter(j => j.status === status).reverse();
+      if (jobs.length === 0) continue;
+      el.createEl("h4", { text: `${JOB_STATUS_LABELS[status]} (${jobs.length})` });
+      for (const job of jobs) this.renderJob(el, job);
+    }
+  }
+
+  /** Update only the elapsed times (called every second while jobs run) */
+  tick() {
+    for (const [job, el] of this.timings) el.setText(jobTimingText(job));
+  }
+
+  private renderJob(parent: HTMLElement, job: AskJob) {
+    const item = parent.createEl("div", { cls: `ask-canvas-job ask-canvas-job-${job.status}` });
+    const question = item.createEl("div", { text: truncateWords(job.question, 16), cls: "ask-canvas-job-question" });
+    this.timings.set(job, item.createEl("div", { text: jobTimingText(job), cls: "mod-muted" }));
+    if (job.error) item.createEl("div", { text: job.error, cls: "ask-canvas-history-error" });
+
+    if (job.status === "done" && job.nodeIds.length > 0) {
+      question.addClass("is-clickable");
+      question.setAttribute("title", "Show on canvas");
+      question.addEventListener("click", () => this.plugin.revealJobNodes(job));
+    }
+
+    const row = item.createEl("div", { cls: "ask-canvas-job-actions" });
+    if (job.status === "queued" || job.status === "running") {
+      row.createEl("button", { text: "Cancel" }).addEventListener("click", () => this.plugin.jobs.cancel(job.id));
+    }
+    if (job.status === "failed" || job.status === "canceled") {
+      row.createEl("button", { text: "Retry" }).addEventListener("click", () => this.plugin.jobs.retry(job.id));
+    }
+  }
+}
+
 /** ---------- Settings UI ---------- */
 class CanvasAskSettingsTab extends PluginSettingTab {
   plugin: CanvasAskPlugin;
@@ -1532,7 +5514,7 @@ class CanvasAskSettingsTab extends PluginSettingTab {
     let hopLimitInfoEl: HTMLDivElement | null = null;
     const updateApiContextSummary = (hopLimitValue: number) => {
       if (hopLimitInfoEl) {
-        hopLimitInfoEl.textContent = `Context may include: text card contents, link URLs, and excerpts of referenced files up to ${this.plugin.settings.contextCharLimitPerNode} characters per node. Upstream hop limit: ${hopLimitValue}.`;
+        hopLimitInfoEl.textContent = `Context may include: text card contents, link URLs, and excerpts of referenced files, packed into each profile's context token budget. Upstream hop limit: ${hopLimitValue}.`;
       }
     };
 
@@ -1570,16 +5552,303 @@ class CanvasAskSettingsTab extends PluginSettingTab {
         .setValue(this.plugin.settings.allowApiCalls)
         .onChange((v) => { this.plugin.settings.allowApiCalls = v; this.plugin.scheduleSaveSettings(); }));
 
+    new Setting(containerEl)
+      .setName("Stream answers")
+      .setDesc("Create the answer node right away and write tokens into the note as the model generates them. Canceling keeps the partial answer, marked as incomplete.")
+      .addToggle(t => t
+        .setValue(this.plugin.settings.streamResponses)
+        .onChange((v) => { this.plugin.settings.streamResponses = v; this.plugin.scheduleSaveSettings(); }));
+
+    new Setting(containerEl)
+      .setName("Review context before sending")
+      .setDesc("After you enter a question, list every collected node with its size and a preview. Uncheck nodes to leave them out, send trimmed ones in full, or inspect the raw request JSON.")
+      .addToggle(t => t
+        .setValue(this.plugin.settings.reviewContextBeforeSending)
+        .onChange((v) => { this.plugin.settings.reviewContextBeforeSending = v; this.plugin.scheduleSaveSettings(); }));
+
+    new Setting(containerEl)
+      .setName("Concurrent Asks")
+      .setDesc("How many Asks (including each call of a fan-out) run at once (1–8). Further Asks wait in the queue shown by \"Open Ask jobs\".")
+      .addSlider(s => s
+        .setLimits(1, 8, 1)
+        .setDynamicTooltip()
+        .setValue(this.plugin.askConcurrency())
+        .onChange((v) => {
+          this.plugin.settings.maxConcurrentAsks = v;
+          this.plugin.jobs.concurrency = v;
+          this.plugin.scheduleSaveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName("Images per Ask")
+      .setDesc("Attach at most this many image nodes (nearest to the selected node first) when the profile accepts images. Each counts as about 800 tokens of the context budget.")
+      .addText(t => t
+        .setPlaceholder(String(DEFAULTS.maxImagesPerAsk))
+        .setValue(String(this.plugin.settings.maxImagesPerAsk))
+        .onChange((v) => {
+          const n = Math.round(Number(v));
+          this.plugin.settings.maxImagesPerAsk = Number.isFinite(n) && v.trim() !== "" ? Math.max(0, n) : DEFAULTS.maxImagesPerAsk;
+          this.plugin.scheduleSaveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName("Max image size (MB)")
+      .setDesc("Larger images are listed as sources but not sent.")
+      .addText(t => t
+        .setPlaceholder(String(DEFAULTS.maxImageSizeMB))
+        .setValue(String(this.plugin.settings.maxImageSizeMB))
+        .onChange((v) => {
+          const n = Number(v);
+          this.plugin.settings.maxImageSizeMB = Number.isFinite(n) && n > 0 ? n : DEFAULTS.maxImageSizeMB;
+          this.plugin.scheduleSaveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName("PDF text limit (tokens)")
+      .setDesc("Text is extracted from PDF nodes locally, page by page, up to this many tokens. It is then budgeted like any other node.")
+      .addText(t => t
+        .setPlaceholder(String(DEFAULTS.pdfTokenLimit))
+        .setValue(String(this.plugin.settings.pdfTokenLimit))
+        .onChange((v) => { this.plugin.settings.pdfTokenLimit = Math.round(Number(v)) || DEFAULTS.pdfTokenLimit; this.plugin.scheduleSaveSettings(); }));
+
+    new Setting(containerEl)
+      .setName("Run log")
+      .setDesc("Record every Ask (messages sent, model parameters, response, token usage, timings, errors) in runs.jsonl in the plugin folder, for the Ask history view. The log holds the canvas content that was sent.")
+      .addToggle(t => t
+        .setValue(this.plugin.settings.logRuns)
+        .onChange((v) => { this.plugin.settings.logRuns = v; this.plugin.scheduleSaveSettings(); }))
+      .addButton(b => b
+        .setButtonText("Clear log")
+        .onClick(() => this.plugin.clearRunLog()));
+
+    new Setting(containerEl)
+      .setName("Conversation threads")
+      .setDesc("Send earlier answers on the branch as a conversation: each answer note and the question on its incoming edge become assistant/user messages. Other nodes are still sent as context.")
+      .addToggle(t => t
+        .setValue(this.plugin.settings.threadMode)
+        .onChange((v) => { this.plugin.settings.threadMode = v; this.plugin.scheduleSaveSettings(); }));
+
+    // Model profiles
+    containerEl.createEl("h3", { text: "Model profiles" });
+    new Setting(containerEl)
+      .setName("Default profile")
+      .setDesc("Used when a canvas has no remembered profile. Each canvas remembers the profile last chosen in the Ask dialog.")
+      .addDropdown(d => {
+        for (const p of this.plugin.settings.profiles) d.addOption(p.id, p.name);
+        d.setValue(this.plugin.getProfile(this.plugin.settings.defaultProfileId).id)
+          .onChange((v) => { this.plugin.settings.defaultProfileId = v; this.plugin.scheduleSaveSettings(); });
+      });
+
+    for (const profile of this.plugin.settings.profiles) {
+      this.displayProfile(containerEl, profile);
+    }
+
+    new Setting(containerEl)
+      .addButton(b => b
+        .setButtonText("Add profile")
+        .onClick(() => {
+          const base = this.plugin.getProfile(this.plugin.settings.defaultProfileId);
+          // Start from the default profile's endpoint so only the model usually needs changing
+          this.plugin.settings.profiles.push(makeProfile({ ...base, id: uuid(), name: `${base.name} copy` }));
+          this.plugin.scheduleSaveSettings();
+          this.display();
+        }));
+
+    containerEl.createEl("h3", { text: "Context & output" });
+
+    new Setting(containerEl)
+      .setName("Upstream hop limit")
+      .setDesc("Maximum number of predecessor hops (0–12) to include alongside the selected node when building context.")
+      .addSlider(s => s
+        .setLimits(0, 12, 1)
+        .setDynamicTooltip()
+        .setValue(currentHopLimit)
+        .onChange((v) => {
+          const normalized = normalizeHopLimit(v);
+          this.plugin.settings.contextHopLimit = normalized;
+          updateApiContextSummary(normalized);
+          this.plugin.scheduleSaveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName("Upstream traversal")
+      .setDesc("Chain follows one edge into the top of each node. Full DAG collects every ancestor through edges on any side, ordered by distance. Applies to Ask and Export Chain.")
+      .addDropdown(d => d
+        .addOption("chain", "Chain (top edges)")
+        .addOption("dag", "Full DAG (all ancestors)")
+        .setValue(this.plugin.settings.contextTraversal)
+        .onChange((v) => { this.plugin.settings.contextTraversal = v === "dag" ? "dag" : "chain"; this.plugin.scheduleSaveSettings(); }));
+
+    new Setting(containerEl)
+      .setName("Embedded canvas depth")
+      .setDesc("A file node that points at another canvas sends that canvas's nodes as context. This is how many levels of canvases inside canvases are opened (0–5; 0 sends only the file name). Each canvas is included once per Ask.")
+      .addSlider(s => s
+        .setLimits(0, 5, 1)
+        .setDynamicTooltip()
+        .setValue(this.plugin.settings.embeddedCanvasDepth)
+        .onChange((v) => { this.plugin.settings.embeddedCanvasDepth = v; this.plugin.scheduleSaveSettings(); }));
+
+    new Setting(containerEl)
+      .setName("Link expansion depth")
+      .setDesc("Also send the notes that context notes link to or embed, including linked headings (#) and blocks (^). They are secondary context: they get only the budget the canvas nodes leave over and are listed separately under Sources. This is how many levels of links are followed (0–3; 0 = off).")
+      .addSlider(s => s
+        .setLimits(0, 3, 1)
+        .setDynamicTooltip()
+        .setValue(this.plugin.settings.linkExpansionDepth)
+        .onChange((v) => { this.plugin.settings.linkExpansionDepth = v; this.plugin.scheduleSaveSettings(); }));
+
+    new Setting(containerEl)
+      .setName("Output folder (optional)")
+      .setDesc("Relative to vault root; blank = alongside the canvas.")
+      .addText(t => t
+        .setPlaceholder("(e.g., Answers)")
+        .setValue(this.plugin.settings.outputFolder)
+        .onChange((v) => { this.plugin.settings.outputFolder = v.trim(); this.plugin.scheduleSaveSettings(); }));
+
+    new Setting(containerEl)
+      .setName("Answer note template")
+      .setDesc("Vault path of a Markdown template; blank = built-in layout (answer + sources). Placeholders: {{answer}}, {{question}}, {{sources}}, {{model}}, {{profile}}, {{date}}, {{canvas}}, {{parent}}, {{tokens}}, {{input_tokens}}, {{output_tokens}}.")
+      .addText(t => t
+        .setPlaceholder("(e.g., Templates/Answer.md)")
+        .setValue(this.plugin.settings.answerTemplatePath)
+        .onChange((v) => { this.plugin.settings.answerTemplatePath = v.trim(); this.plugin.scheduleSaveSettings(); }));
+
+    new Setting(containerEl)
+      .setName("Answer frontmatter")
+      .setDesc("Add YAML frontmatter to answer notes: generator, model, temperature, canvas, parent_node, created, prompt_hash and token counts (e.g. for Dataview queries).")
+      .addToggle(t => t
+        .setValue(this.plugin.settings.answerFrontmatter)
+        .onChange((v) => { this.plugin.settings.answerFrontmatter = v; this.plugin.scheduleSaveSettings(); }));
+
+    new Setting(containerEl)
+      .setName("Default answer output")
+      .setDesc("Preselected in the Ask dialogs. Text cards keep quick answers inside the canvas instead of creating notes; Expand into cards splits the answer into one card per idea. Only notes are streamed.")
+      .addDropdown(d => {
+        for (const [k, label] of Object.entries(ANSWER_OUTPUT_LABELS)) d.addOption(k, label);
+        d.setValue(this.plugin.settings.defaultAnswerOutput)
+          .onChange((v) => { this.plugin.settings.defaultAnswerOutput = v as AnswerOutput; this.plugin.scheduleSaveSettings(); });
+      });
+
+    new Setting(containerEl)
+      .setName("Prompt template folder")
+      .setDesc("Notes in this folder are offered as prompt templates in the Ask dialog (frontmatter: output, question, node-types; sections: # System, # Prompt with {{question}} and {{context}}). Empty or missing folder = built-in templates; \"Create prompt template notes\" writes them here to edit.")
+      .addText(t => t
+        .setPlaceholder("(e.g., Ask Canvas/Prompts)")
+        .setValue(this.plugin.settings.promptTemplateFolder)
+        .onChange((v) => { this.plugin.settings.promptTemplateFolder = v.trim(); this.plugin.scheduleSaveSettings(); }));
+
+    new Setting(containerEl)
+      .setName("When a note already exists")
+      .setDesc("For answer notes and chain exports whose filename is taken. Overwrite first saves the old note as a \"(backup …)\" copy next to it.")
+      .addDropdown(d => d
+        .addOption("suffix", "Keep both (add a number)")
+        .addOption("timestamp", "Keep both (add a timestamp)")
+        .addOption("prompt", "Ask every time")
+        .addOption("overwrite", "Overwrite (with backup)")
+        .setValue(this.plugin.settings.onNoteCollision)
+        .onChange((v) => { this.plugin.settings.onNoteCollision = v as NoteCollisionMode; this.plugin.scheduleSaveSettings(); }));
+
+    new Setting(containerEl)
+      .setName("Related local search results to show")
+      .setDesc("Number of top matches to present (3–12)")
+      .addSlider(s => s
+        .setLimits(3, 12, 1)
+        .setDynamicTooltip()
+        .setValue(Math.max(3, Math.min(12, this.plugin.settings.topRelatedResults ?? DEFAULTS.topRelatedResults)))
+        .onChange((v) => { this.plugin.settings.topRelatedResults = v; this.plugin.scheduleSaveSettings(); }));
+
+    new Setting(containerEl)
+      .setName("Full-text index for related search")
+      .setDesc("Score Find Related Ideas with BM25 over the full text of every note, using an index stored in the plugin folder and updated as notes change. When OFF, only the first 3000 characters of the top 100 title/tag matches are scanned.")
+      .addToggle(t => t
+        .setValue(this.plugin.settings.useRelatedIndex)
+        .onChange((v) => { this.plugin.settings.useRelatedIndex = v; this.plugin.scheduleSaveSettings(); }))
+      .addExtraButton(b => b
+        .setIcon("refresh-cw")
+        .setTooltip("Rebuild index")
+        .onClick(() => { this.plugin.rebuildRelatedIndex(); }));
+
+    new Setting(containerEl)
+      .setName("Related search mode")
+      .setDesc("Keyword: title, tag and full-text matches. Semantic: similarity between note embeddings and the selected node. Hybrid: both rankings fused.")
+      .addDropdown(d => d
+        .addOption("lexical", "Keyword")
+        .addOption("semantic", "Semantic")
+        .addOption("hybrid", "Hybrid")
+        .setValue(this.plugin.settings.relatedSearchMode)
+        .onChange((v) => { this.plugin.settings.relatedSearchMode = v as RelatedSearchMode; this.plugin.scheduleSaveSettings(); }));
+
+    new Setting(containerEl)
+      .setName("Embeddings endpoint")
+      .setDesc("OpenAI-compatible server exposing /v1/embeddings. A localhost endpoint (e.g. Ollama at http://localhost:11434) keeps search fully offline and works even when API calls are disabled.")
+      .addText(t => t
+        .setPlaceholder(DEFAULTS.embeddingBaseURL)
+        .setValue(this.plugin.settings.embeddingBaseURL)
+        .onChange((v) => { this.plugin.settings.embeddingBaseURL = trimBase(v.trim()) || DEFAULTS.embeddingBaseURL; this.plugin.scheduleSaveSettings(); }));
+
+    new Setting(containerEl)
+      .setName("Embeddings API key")
+      .setDesc("Leave blank for local servers that don't need one.")
+      .addText(t => {
+        t.inputEl.type = "password";
+        t.setValue(this.plugin.settings.embeddingApiKey)
+          .onChange((v) => { this.plugin.settings.embeddingApiKey = v.trim(); this.plugin.scheduleSaveSettings(); });
+      });
+
+    new Setting(containerEl)
+      .setName("Embedding model")
+      .setDesc("e.g., text-embedding-3-small, nomic-embed-text. Changing it re-embeds every note on the next semantic search.")
+      .addText(t => t
+        .setPlaceholder(DEFAULTS.embeddingModel)
+        .setValue(this.plugin.settings.embeddingModel)
+        .onChange((v) => { this.plugin.settings.embeddingModel = v.trim() || DEFAULTS.embeddingModel; this.plugin.scheduleSaveSettings(); }))
+      .addExtraButton(b => b
+        .setIcon("refresh-cw")
+        .setTooltip("Rebuild embeddings")
+        .onClick(() => { this.plugin.rebuildEmbeddings(); }));
+  }
+
+  /** Render one collapsible profile editor */
+  private displayProfile(containerEl: HTMLElement, profile: ModelProfile): void {
+    const provider = getProvider(profile.provider);
+    const details = containerEl.createEl("details", { cls: "ask-canvas-profile" });
+    const summary = details.createEl("summary", { text: `${profile.name} — ${provider.label} · ${profile.model}` });
+    const refreshSummary = () => summary.setText(`${profile.name} — ${getProvider(profile.provider).label} · ${profile.model}`);
+
+    new Setting(details)
+      .setName("Name")
+      .addText(t => t
+        .setValue(profile.name)
+        .onChange((v) => { profile.name = v.trim() || "Untitled profile"; refreshSummary(); this.plugin.scheduleSaveSettings(); }));
+
+    new Setting(details)
+      .setName("Provider")
+      .setDesc("API format to use: OpenAI-compatible Chat Completions, Anthropic Messages, or a local Ollama server.")
+      .addDropdown(d => {
+        for (const p of Object.values(PROVIDERS)) d.addOption(p.kind, p.label);
+        d.setValue(provider.kind)
+          .onChange((v) => {
+            const next = getProvider(v);
+            // Follow the new provider's default endpoint unless the user set a custom one
+            if (!profile.baseURL || Object.values(PROVIDERS).some(p => p.defaultBaseURL === profile.baseURL)) {
+              profile.baseURL = next.defaultBaseURL;
+            }
+            profile.provider = next.kind;
+            this.plugin.scheduleSaveSettings();
+            this.display();
+          });
+      });
+
     {
       let showKey = false;
       let keyInputEl: HTMLInputElement | null = null;
-      const keySetting = new Setting(containerEl)
-        .setName("OpenAI API key")
-        .setDesc("Stored in your vault’s plugin data.")
+      const keySetting = new Setting(details)
+        .setName("API key")
+        .setDesc(provider.requiresKey ? "Stored in your vault’s plugin data." : "Optional for this provider. Stored in your vault’s plugin data.")
         .addText(t => {
           t.setPlaceholder("sk-...")
-            .setValue(this.plugin.settings.openAIKey)
-            .onChange((v) => { this.plugin.settings.openAIKey = v.trim(); this.plugin.scheduleSaveSettings(); });
+            .setValue(profile.apiKey)
+            .onChange((v) => { profile.apiKey = v.trim(); this.plugin.scheduleSaveSettings(); });
           // Mask API key entry in UI
           t.inputEl.type = 'password';
           t.inputEl.spellcheck = false;
@@ -1599,16 +5868,16 @@ class CanvasAskSettingsTab extends PluginSettingTab {
       });
     }
 
-    new Setting(containerEl)
+    new Setting(details)
       .setName("API Base URL")
-      .setDesc("Usually https://api.openai.com")
+      .setDesc(`Usually ${provider.defaultBaseURL}`)
       .addText(t => t
-        .setPlaceholder(DEFAULTS.openAIBaseURL)
-        .setValue(this.plugin.settings.openAIBaseURL)
+        .setPlaceholder(provider.defaultBaseURL)
+        .setValue(profile.baseURL)
         .onChange((v) => {
           const raw = v.trim();
           if (!raw) {
-            this.plugin.settings.openAIBaseURL = DEFAULTS.openAIBaseURL;
+            profile.baseURL = provider.defaultBaseURL;
             this.plugin.scheduleSaveSettings();
             return;
           }
@@ -1625,98 +5894,94 @@ class CanvasAskSettingsTab extends PluginSettingTab {
             }
           }
           if (!parsed) {
-            new Notice("Invalid API Base URL. Example: https://api.openai.com");
+            new Notice(`Invalid API Base URL. Example: ${provider.defaultBaseURL}`);
             return; // keep previous valid value
           }
-          if (parsed.protocol === 'http:') {
+          const isLocal = ['localhost', '127.0.0.1', '[::1]'].includes(parsed.hostname);
+          if (parsed.protocol === 'http:' && !isLocal) {
             new Notice("Warning: API Base URL uses insecure http:. Use https: to protect your key.");
           } else if (usedPrefix) {
             new Notice("Assuming https:// prefix for API Base URL.");
           }
           // Normalize: strip trailing slashes
-          const normalized = parsed.origin.replace(/\/+$/, "");
-          this.plugin.settings.openAIBaseURL = normalized;
+          profile.baseURL = parsed.origin.replace(/\/+$/, "");
           this.plugin.scheduleSaveSettings();
         }));
 
-    new Setting(containerEl)
+    new Setting(details)
       .setName("Model")
-      .setDesc("e.g., gpt-4o-mini, gpt-4.1")
+      .setDesc("e.g., gpt-4o-mini, gpt-4.1, claude-sonnet-4-5, llama3.1")
       .addText(t => t
-        .setPlaceholder(DEFAULTS.openAIModel)
-        .setValue(this.plugin.settings.openAIModel)
-        .onChange((v) => { this.plugin.settings.openAIModel = v.trim() || DEFAULTS.openAIModel; this.plugin.scheduleSaveSettings(); }));
+        .setPlaceholder(PROFILE_DEFAULTS.model)
+        .setValue(profile.model)
+        .onChange((v) => { profile.model = v.trim() || PROFILE_DEFAULTS.model; refreshSummary(); this.plugin.scheduleSaveSettings(); }));
 
     // System prompt editor (multiline)
     {
-      const s = new Setting(containerEl)
+      const s = new Setting(details)
         .setName("System prompt")
         .setDesc("System message sent with each API call. Leave blank to use the default.");
       const area = s.controlEl.createEl('textarea', { cls: 'ask-canvas-settings-textarea' });
       area.setAttr('spellcheck', 'false');
       area.placeholder = DEFAULT_SYSTEM_PROMPT;
-      area.value = this.plugin.settings.systemPrompt || '';
+      area.value = profile.systemPrompt || '';
       area.addEventListener('input', () => {
-        this.plugin.settings.systemPrompt = area.value;
+        profile.systemPrompt = area.value;
         this.plugin.scheduleSaveSettings();
       });
     }
 
-    new Setting(containerEl)
+    new Setting(details)
       .setName("Temperature")
       .addText(t => t
-        .setPlaceholder(String(DEFAULTS.temperature))
-        .setValue(String(this.plugin.settings.temperature))
-        .onChange((v) => { this.plugin.settings.temperature = Number(v) || DEFAULTS.temperature; this.plugin.scheduleSaveSettings(); }));
+        .setPlaceholder(String(PROFILE_DEFAULTS.temperature))
+        .setValue(String(profile.temperature))
+        .onChange((v) => { profile.temperature = Number(v) || PROFILE_DEFAULTS.temperature; this.plugin.scheduleSaveSettings(); }));
 
-    new Setting(containerEl)
+    new Setting(details)
       .setName("Max tokens")
       .addText(t => t
-        .setPlaceholder(String(DEFAULTS.maxTokens))
-        .setValue(String(this.plugin.settings.maxTokens))
-        .onChange((v) => { this.plugin.settings.maxTokens = Number(v) || DEFAULTS.maxTokens; this.plugin.scheduleSaveSettings(); }));
+        .setPlaceholder(String(PROFILE_DEFAULTS.maxTokens))
+        .setValue(String(profile.maxTokens))
+        .onChange((v) => { profile.maxTokens = Number(v) || PROFILE_DEFAULTS.maxTokens; this.plugin.scheduleSaveSettings(); }));
 
-    new Setting(containerEl)
-      .setName("Context char limit per upstream node")
+    new Setting(details)
+      .setName("Context token budget")
+      .setDesc("Approximate tokens of canvas context to send. The selected node and near ancestors get the largest share; distant nodes are trimmed or reduced to an outline.")
       .addText(t => t
-        .setPlaceholder(String(DEFAULTS.contextCharLimitPerNode))
-        .setValue(String(this.plugin.settings.contextCharLimitPerNode))
-        .onChange((v) => {
-          this.plugin.settings.contextCharLimitPerNode = Number(v) || DEFAULTS.contextCharLimitPerNode;
-          updateApiContextSummary(normalizeHopLimit(this.plugin.settings.contextHopLimit));
-          this.plugin.scheduleSaveSettings();
-        }));
-
-    new Setting(containerEl)
-      .setName("Upstream hop limit")
-      .setDesc("Maximum number of predecessor hops (0–12) to include alongside the selected node when building context.")
-      .addSlider(s => s
-        .setLimits(0, 12, 1)
-        .setDynamicTooltip()
-        .setValue(currentHopLimit)
+        .setPlaceholder(String(PROFILE_DEFAULTS.contextTokenBudget))
+        .setValue(String(profile.contextTokenBudget))
         .onChange((v) => {
-          const normalized = normalizeHopLimit(v);
-          this.plugin.settings.contextHopLimit = normalized;
-          updateApiContextSummary(normalized);
+          // Same rule as makeProfile: only a positive budget is kept
+          const n = Math.round(Number(v));
+          profile.contextTokenBudget = n > 0 ? n : PROFILE_DEFAULTS.contextTokenBudget;
           this.plugin.scheduleSaveSettings();
         }));
 
-    new Setting(containerEl)
-      .setName("Output folder (optional)")
-      .setDesc("Relative to vault root; blank = alongside the canvas.")
-      .addText(t => t
-        .setPlaceholder("(e.g., Answers)")
-        .setValue(this.plugin.settings.outputFolder)
-        .onChange((v) => { this.plugin.settings.outputFolder = v.trim(); this.plugin.scheduleSaveSettings(); }));
-
-    new Setting(containerEl)
-      .setName("Related local search results to show")
-      .setDesc("Number of top matches to present (3–12)")
-      .addSlider(s => s
-        .setLimits(3, 12, 1)
-        .setDynamicTooltip()
-        .setValue(Math.max(3, Math.min(12, this.plugin.settings.topRelatedResults ?? DEFAULTS.topRelatedResults)))
-        .onChange((v) => { this.plugin.settings.topRelatedResults = v; this.plugin.scheduleSaveSettings(); }));
+    new Setting(details)
+      .setName("Accepts images")
+      .setDesc("The model can read images. Image file nodes are then attached to the request; otherwise they are only listed as sources.")
+      .addToggle(t => t
+        .setValue(profile.vision)
+        .onChange((v) => { profile.vision = v; this.plugin.scheduleSaveSettings(); }));
+
+    if (this.plugin.settings.profiles.length > 1) {
+      new Setting(details)
+        .addButton(b => b
+          .setButtonText("Delete profile")
+          .setWarning()
+          .onClick(() => {
+            const settings = this.plugin.settings;
+            settings.profiles = settings.profiles.filter(p => p.id !== profile.id);
+            if (settings.defaultProfileId === profile.id) settings.defaultProfileId = settings.profiles[0].id;
+            // Canvases that remembered this profile fall back to the default
+            for (const [path, id] of Object.entries(settings.canvasProfiles)) {
+              if (id === profile.id) delete settings.canvasProfiles[path];
+            }
+            this.plugin.scheduleSaveSettings();
+            this.display();
+          }));
+    }
   }
 }
 
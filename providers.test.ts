@@ -0,0 +1,207 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  ChatRequestParams, LLMProvider, ANTHROPIC_PROVIDER, OLLAMA_PROVIDER, OPENAI_PROVIDER,
+  getProvider, providerError, readChatStream
+} from "./providers";
+
+/** What the mock server saw for one request */
+interface Captured { method?: string; url?: string; headers: http.IncomingHttpHeaders; body: unknown; }
+
+// Request bodies as the mock server parses them (only the fields the tests read)
+interface OpenAIBody {
+  model: string;
+  max_tokens: number;
+  messages: Array<{ role: string; content: unknown }>;
+  stream?: boolean;
+  stream_options?: unknown;
+  response_format?: unknown;
+}
+interface AnthropicBody { system?: string; messages: Array<{ role: string; content: unknown }>; }
+interface OllamaBody { messages: unknown[]; stream: boolean; format?: unknown; options?: unknown; }
+
+// The next response the mock server sends: status, content type and raw body chunks
+let reply: { status: number; type: string; chunks: string[] } = { status: 200, type: "application/json", chunks: ["{}"] };
+let captured: Captured | null = null;
+
+/** Start the mock server once; unref'd so it doesn't keep the test process alive */
+const serverReady = new Promise<string>(resolve => {
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (c: Buffer) => { raw += c.toString("utf8"); });
+    req.on("end", async () => {
+      captured = { method: req.method, url: req.url, headers: req.headers, body: JSON.parse(raw) };
+      res.writeHead(reply.status, { "Content-Type": reply.type });
+      // Send chunks separately so events get split across reads
+      for (const chunk of reply.chunks) {
+        res.write(chunk);
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      res.end();
+    });
+  });
+  server.listen(0, "127.0.0.1", () => {
+    server.unref();
+    resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}/`);
+  });
+});
+
+const PARAMS: ChatRequestParams = {
+  model: "test-model",
+  temperature: 0.2,
+  maxTokens: 256,
+  messages: [
+    { role: "system", content: "Be brief." },
+    { role: "user", content: "Describe this.", images: [{ path: "a.png", mime: "image/png", data: "QUJD" }] },
+  ],
+  stream: false,
+};
+
+const SCHEMA = { name: "cards", schema: { type: "object", properties: { cards: { type: "array" } } } };
+
+/** Build a request for the mock server, send it and return what the server received */
+async function send(provider: LLMProvider, params: ChatRequestParams, apiKey = "sk-test"): Promise<{ seen: Captured; res: Response }> {
+  const baseURL = await serverReady;
+  const { url, headers, body } = provider.buildRequest({ baseURL, apiKey }, params);
+  const res = await fetch(url, { method: "POST", headers, body });
+  assert.ok(captured);
+  return { seen: captured, res };
+}
+
+function sse(events: unknown[]): string[] {
+  return events.map(e => `data: ${typeof e === "string" ? e : JSON.stringify(e)}\n\n`);
+}
+
+test("getProvider falls back to OpenAI for unknown kinds", () => {
+  assert.equal(getProvider("anthropic"), ANTHROPIC_PROVIDER);
+  assert.equal(getProvider("ollama"), OLLAMA_PROVIDER);
+  assert.equal(getProvider("nope"), OPENAI_PROVIDER);
+  assert.equal(getProvider(undefined), OPENAI_PROVIDER);
+});
+
+test("OpenAI request: auth header, image parts and structured output", async () => {
+  reply = { status: 200, type: "application/json", chunks: [JSON.stringify({ choices: [{ message: { content: "Hi" } }], usage: { prompt_tokens: 7, completion_tokens: 2 } })] };
+  const { seen, res } = await send(OPENAI_PROVIDER, { ...PARAMS, responseSchema: SCHEMA });
+  assert.equal(seen.method, "POST");
+  assert.equal(seen.url, "/v1/chat/completions");
+  assert.equal(seen.headers.authorization, "Bearer sk-test");
+  const body = seen.body as OpenAIBody;
+  assert.equal(body.model, "test-model");
+  assert.equal(body.max_tokens, 256);
+  assert.equal(body.stream, undefined);
+  assert.deepEqual(body.messages[0], { role: "system", content: "Be brief." });
+  assert.deepEqual(body.messages[1].content, [
+    { type: "text", text: "Describe this." },
+    { type: "image_url", image_url: { url: "data:image/png;base64,QUJD" } },
+  ]);
+  assert.deepEqual(body.response_format, { type: "json_schema", json_schema: { ...SCHEMA, strict: true } });
+  const json = await res.json();
+  assert.equal(OPENAI_PROVIDER.parseResponse(json), "Hi");
+  assert.deepEqual(OPENAI_PROVIDER.parseUsage(json), { inputTokens: 7, outputTokens: 2 });
+});
+
+test("OpenAI stream: SSE deltas, final usage chunk and [DONE]", async () => {
+  reply = {
+    status: 200,
+    type: "text/event-stream",
+    chunks: [
+      ...sse([{ choices: [{ delta: { content: "Hel" } }] }]),
+      // An event split across two writes
+      'data: {"choices":[{"delta":{"cont', 'ent":"lo"}}]}\n\n',
+      ...sse([{ choices: [], usage: { prompt_tokens: 5, completion_tokens: 2 } }, "[DONE]"]),
+    ],
+  };
+  const { seen, res } = await send(OPENAI_PROVIDER, { ...PARAMS, stream: true });
+  const body = seen.body as OpenAIBody;
+  assert.equal(body.stream, true);
+  assert.deepEqual(body.stream_options, { include_usage: true });
+  const deltas: string[] = [];
+  assert.ok(res.body);
+  const out = await readChatStream(OPENAI_PROVIDER, res.body, d => deltas.push(d));
+  assert.deepEqual(deltas, ["Hel", "lo"]);
+  assert.equal(out.text, "Hello");
+  assert.deepEqual(out.usage, { inputTokens: 5, outputTokens: 2 });
+});
+
+test("Anthropic request: system prompt, image blocks and key header", async () => {
+  reply = { status: 200, type: "application/json", chunks: [JSON.stringify({ content: [{ type: "text", text: "Hi" }], usage: { input_tokens: 9, output_tokens: 3 } })] };
+  const { seen, res } = await send(ANTHROPIC_PROVIDER, PARAMS);
+  assert.equal(seen.url, "/v1/messages");
+  assert.equal(seen.headers["x-api-key"], "sk-test");
+  assert.ok(seen.headers["anthropic-version"]);
+  const body = seen.body as AnthropicBody;
+  assert.equal(body.system, "Be brief.");
+  assert.equal(body.messages.length, 1);
+  assert.deepEqual(body.messages[0].content, [
+    { type: "image", source: { type: "base64", media_type: "image/png", data: "QUJD" } },
+    { type: "text", text: "Describe this." },
+  ]);
+  const json = await res.json();
+  assert.equal(ANTHROPIC_PROVIDER.parseResponse(json), "Hi");
+  assert.deepEqual(ANTHROPIC_PROVIDER.parseUsage(json), { inputTokens: 9, outputTokens: 3 });
+});
+
+test("Anthropic stream: text deltas and usage from start and delta events", async () => {
+  reply = {
+    status: 200,
+    type: "text/event-stream",
+    chunks: [
+      "event: message_start\n", ...sse([{ type: "message_start", message: { usage: { input_tokens: 12, output_tokens: 1 } } }]),
+      "event: content_block_delta\n", ...sse([{ type: "content_block_delta", delta: { type: "text_delta", text: "Hi " } }]),
+      ...sse([{ type: "content_block_delta", delta: { type: "text_delta", text: "there" } }]),
+      ...sse([{ type: "message_delta", usage: { output_tokens: 4 } }, { type: "message_stop" }]),
+      // Anything after message_stop is ignored
+      ...sse([{ type: "content_block_delta", delta: { type: "text_delta", text: "!" } }]),
+    ],
+  };
+  const { res } = await send(ANTHROPIC_PROVIDER, { ...PARAMS, stream: true });
+  assert.ok(res.body);
+  const out = await readChatStream(ANTHROPIC_PROVIDER, res.body, () => { /* collected in out.text */ });
+  assert.equal(out.text, "Hi there");
+  assert.deepEqual(out.usage, { inputTokens: 12, outputTokens: 4 });
+});
+
+test("Ollama request: no auth without a key, base64 images and format schema", async () => {
+  reply = { status: 200, type: "application/json", chunks: [JSON.stringify({ message: { content: "Hi" }, prompt_eval_count: 4, eval_count: 1 })] };
+  const { seen, res } = await send(OLLAMA_PROVIDER, { ...PARAMS, responseSchema: SCHEMA }, "");
+  assert.equal(seen.url, "/api/chat");
+  assert.equal(seen.headers.authorization, undefined);
+  const body = seen.body as OllamaBody;
+  assert.equal(body.stream, false);
+  assert.deepEqual(body.messages[1], { role: "user", content: "Describe this.", images: ["QUJD"] });
+  assert.deepEqual(body.format, SCHEMA.schema);
+  assert.deepEqual(body.options, { temperature: 0.2, num_predict: 256 });
+  const json = await res.json();
+  assert.equal(OLLAMA_PROVIDER.parseResponse(json), "Hi");
+  assert.deepEqual(OLLAMA_PROVIDER.parseUsage(json), { inputTokens: 4, outputTokens: 1 });
+});
+
+test("Ollama stream: NDJSON lines until done", async () => {
+  reply = {
+    status: 200,
+    type: "application/x-ndjson",
+    chunks: [
+      JSON.stringify({ message: { content: "Lo" }, done: false }) + "\n",
+      JSON.stringify({ message: { content: "cal" }, done: false }) + "\n" + JSON.stringify({ message: { content: "" }, done: true, prompt_eval_count: 3, eval_count: 2 }) + "\n",
+    ],
+  };
+  const { res } = await send(OLLAMA_PROVIDER, { ...PARAMS, stream: true }, "");
+  assert.ok(res.body);
+  let chunks = 0;
+  const out = await readChatStream(OLLAMA_PROVIDER, res.body, () => { /* collected in out.text */ }, () => { chunks++; });
+  assert.equal(out.text, "Local");
+  assert.deepEqual(out.usage, { inputTokens: 3, outputTokens: 2 });
+  assert.ok(chunks >= 1);
+});
+
+test("providerError: provider message, status tag and single line", async () => {
+  reply = { status: 429, type: "application/json", chunks: [JSON.stringify({ error: { type: "rate_limit_error", message: "Slow\ndown" } })] };
+  const { res } = await send(ANTHROPIC_PROVIDER, PARAMS);
+  const err = providerError(ANTHROPIC_PROVIDER, res.status, await res.text());
+  assert.equal(err.message, "Anthropic API error 429 rate_limit_error: Slow down");
+  assert.equal((err as Error & { status?: number }).status, 429);
+  // Unparseable bodies are not echoed
+  assert.equal(providerError(OLLAMA_PROVIDER, 500, "<html>oops</html>").message, "Ollama API error 500: (response length 17)");
+});
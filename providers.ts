@@ -0,0 +1,302 @@
+/**
+ * LLM provider wire formats and stream parsing. This module must not import "obsidian": it is
+ * tested under plain Node against a mock HTTP server (providers.test.ts).
+ */
+
+// Sanitize text for logging/errors: collapse whitespace and truncate
+function sanitizeForLog(input: unknown, max = 300): string {
+  const s = String((input as unknown) ?? '').replace(/[\r\n\t]+/g, ' ').replace(/\s+/g, ' ').trim();
+  return s.length > max ? s.slice(0, max) + '…' : s;
+}
+
+export type ProviderKind = "openai" | "anthropic" | "ollama";
+
+// An image sent with a message: base64 data without the "data:" prefix (left empty in the run log)
+export interface ChatImage { path: string; mime: string; data: string; }
+
+export interface ChatMessage { role: "system" | "user" | "assistant"; content: string; images?: ChatImage[]; }
+
+export interface ChatRequestParams {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  messages: ChatMessage[];
+  stream: boolean;
+  // Ask for JSON matching this schema (where the provider supports structured output)
+  responseSchema?: { name: string; schema: Record<string, unknown> };
+}
+
+export interface ProviderEndpoint { baseURL: string; apiKey: string; }
+
+// Token counts as reported by the provider (either may be missing)
+export interface TokenUsage { inputTokens?: number; outputTokens?: number; }
+
+export interface ChatResult { text: string; usage?: TokenUsage; attempts?: number; }
+
+/**
+ * One LLM wire format: how to authenticate, shape the request, read the answer (buffered or streamed)
+ * and turn an error body into a readable message.
+ */
+export interface LLMProvider {
+  readonly kind: ProviderKind;
+  readonly label: string;
+  readonly defaultBaseURL: string;
+  readonly requiresKey: boolean;
+  // "sse" = `data: {...}` lines, "ndjson" = one JSON object per line
+  readonly streamFormat: "sse" | "ndjson";
+  buildRequest(endpoint: ProviderEndpoint, params: ChatRequestParams): { url: string; headers: Record<string, string>; body: string };
+  parseResponse(json: unknown): string | undefined;
+  parseUsage(json: unknown): TokenUsage | undefined;
+  // `usage` may arrive in pieces across events; later values win
+  parseStreamEvent(json: unknown): { delta?: string; done?: boolean; usage?: TokenUsage };
+  parseError(bodyText: string): { code?: string; message?: string };
+}
+
+export function trimBase(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+// Drop undefined fields so a partial usage update doesn't erase an earlier value
+function definedOnly<T extends object>(o: T): Partial<T> {
+  const out: Partial<T> = {};
+  for (const k of Object.keys(o) as Array<keyof T>) if (o[k] !== undefined) out[k] = o[k];
+  return out;
+}
+
+export function parseJsonSafe(text: string): unknown {
+  try { return text ? JSON.parse(text) : undefined; } catch { return undefined; }
+}
+
+/** OpenAI Chat Completions and compatible servers (LM Studio, vLLM, OpenRouter, …) */
+export const OPENAI_PROVIDER: LLMProvider = {
+  kind: "openai",
+  label: "OpenAI-compatible",
+  defaultBaseURL: "https://api.openai.com",
+  requiresKey: true,
+  streamFormat: "sse",
+  buildRequest(endpoint, params) {
+    const body: Record<string, unknown> = {
+      model: params.model,
+      temperature: params.temperature,
+      max_tokens: params.maxTokens,
+      messages: params.messages.map(m => m.images?.length
+        ? {
+          role: m.role,
+          content: [
+            { type: "text", text: m.content },
+            ...m.images.map(img => ({ type: "image_url", image_url: { url: `data:${img.mime};base64,${img.data}` } })),
+          ],
+        }
+        : { role: m.role, content: m.content }),
+    };
+    if (params.stream) {
+      body.stream = true;
+      // Ask for a final usage chunk (ignored by servers that don't support it)
+      body.stream_options = { include_usage: true };
+    }
+    if (params.responseSchema) {
+      body.response_format = { type: "json_schema", json_schema: { ...params.responseSchema, strict: true } };
+    }
+    return {
+      url: `${trimBase(endpoint.baseURL)}/v1/chat/completions`,
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${endpoint.apiKey}`,
+      },
+      body: JSON.stringify(body),
+    };
+  },
+  parseResponse(json) {
+    return (json as { choices?: Array<{ message?: { content?: string } }> })?.choices?.[0]?.message?.content;
+  },
+  parseUsage(json) {
+    const u = (json as { usage?: { prompt_tokens?: number; completion_tokens?: number } | null })?.usage;
+    return u ? { inputTokens: u.prompt_tokens, outputTokens: u.completion_tokens } : undefined;
+  },
+  parseStreamEvent(json) {
+    const delta = (json as { choices?: Array<{ delta?: { content?: string } }> })?.choices?.[0]?.delta?.content;
+    return { delta: delta || undefined, usage: this.parseUsage(json) };
+  },
+  parseError(bodyText) {
+    const parsed = parseJsonSafe(bodyText) as { error?: { code?: string; type?: string; message?: string }; code?: string; message?: string } | undefined;
+    return {
+      code: parsed?.error?.code || parsed?.error?.type || parsed?.code,
+      message: parsed?.error?.message || parsed?.message,
+    };
+  },
+};
+
+/** Anthropic Messages API: system prompt is a top-level field and the answer comes back as content blocks */
+export const ANTHROPIC_PROVIDER: LLMProvider = {
+  kind: "anthropic",
+  label: "Anthropic",
+  defaultBaseURL: "https://api.anthropic.com",
+  requiresKey: true,
+  streamFormat: "sse",
+  buildRequest(endpoint, params) {
+    const system = params.messages.filter(m => m.role === "system").map(m => m.content).join("\n\n");
+    const body: Record<string, unknown> = {
+      model: params.model,
+      temperature: params.temperature,
+      max_tokens: params.maxTokens,
+      messages: params.messages.filter(m => m.role !== "system").map(m => m.images?.length
+        ? {
+          role: m.role,
+          content: [
+            ...m.images.map(img => ({ type: "image", source: { type: "base64", media_type: img.mime, data: img.data } })),
+            { type: "text", text: m.content },
+          ],
+        }
+        : { role: m.role, content: m.content }),
+    };
+    if (system) body.system = system;
+    if (params.stream) body.stream = true;
+    // No structured-output switch here: the JSON shape is requested in the prompt only
+    return {
+      url: `${trimBase(endpoint.baseURL)}/v1/messages`,
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": endpoint.apiKey,
+        "anthropic-version": "2023-06-01",
+        // Required for fetch-based streaming from the app's renderer process
+        "anthropic-dangerous-direct-browser-access": "true",
+      },
+      body: JSON.stringify(body),
+    };
+  },
+  parseResponse(json) {
+    const blocks = (json as { content?: Array<{ type?: string; text?: string }> })?.content;
+    if (!Array.isArray(blocks)) return undefined;
+    return blocks.filter(b => b?.type === "text" && typeof b.text === "string").map(b => b.text).join("");
+  },
+  parseUsage(json) {
+    const u = (json as { usage?: { input_tokens?: number; output_tokens?: number } })?.usage;
+    return u ? { inputTokens: u.input_tokens, outputTokens: u.output_tokens } : undefined;
+  },
+  parseStreamEvent(json) {
+    const ev = json as { type?: string; delta?: { type?: string; text?: string }; message?: unknown; usage?: { output_tokens?: number } };
+    if (ev?.type === "content_block_delta" && ev.delta?.type === "text_delta") return { delta: ev.delta.text || undefined };
+    // Input tokens come with message_start, the output count with the closing message_delta
+    if (ev?.type === "message_start") return { usage: this.parseUsage(ev.message) };
+    if (ev?.type === "message_delta" && ev.usage) return { usage: { outputTokens: ev.usage.output_tokens } };
+    if (ev?.type === "message_stop") return { done: true };
+    return {};
+  },
+  parseError(bodyText) {
+    const parsed = parseJsonSafe(bodyText) as { error?: { type?: string; message?: string } } | undefined;
+    return { code: parsed?.error?.type, message: parsed?.error?.message };
+  },
+};
+
+/** Ollama native chat endpoint (local, no key; a key is sent as Bearer if set, for auth proxies) */
+export const OLLAMA_PROVIDER: LLMProvider = {
+  kind: "ollama",
+  label: "Ollama",
+  defaultBaseURL: "http://localhost:11434",
+  requiresKey: false,
+  streamFormat: "ndjson",
+  buildRequest(endpoint, params) {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (endpoint.apiKey) headers["Authorization"] = `Bearer ${endpoint.apiKey}`;
+    return {
+      url: `${trimBase(endpoint.baseURL)}/api/chat`,
+      headers,
+      body: JSON.stringify({
+        model: params.model,
+        messages: params.messages.map(m => m.images?.length
+          ? { role: m.role, content: m.content, images: m.images.map(img => img.data) }
+          : { role: m.role, content: m.content }),
+        // Ollama streams unless told otherwise
+        stream: params.stream,
+        ...(params.responseSchema ? { format: params.responseSchema.schema } : {}),
+        options: { temperature: params.temperature, num_predict: params.maxTokens },
+      }),
+    };
+  },
+  parseResponse(json) {
+    return (json as { message?: { content?: string } })?.message?.content;
+  },
+  parseUsage(json) {
+    const r = json as { prompt_eval_count?: number; eval_count?: number };
+    return r?.prompt_eval_count != null || r?.eval_count != null ? { inputTokens: r.prompt_eval_count, outputTokens: r.eval_count } : undefined;
+  },
+  parseStreamEvent(json) {
+    const ev = json as { message?: { content?: string }; done?: boolean };
+    // The final chunk carries the counts
+    return { delta: ev?.message?.content || undefined, done: ev?.done === true, usage: ev?.done ? this.parseUsage(json) : undefined };
+  },
+  parseError(bodyText) {
+    const parsed = parseJsonSafe(bodyText) as { error?: string } | undefined;
+    return { message: typeof parsed?.error === "string" ? parsed.error : undefined };
+  },
+};
+
+export const PROVIDERS: Record<ProviderKind, LLMProvider> = {
+  openai: OPENAI_PROVIDER,
+  anthropic: ANTHROPIC_PROVIDER,
+  ollama: OLLAMA_PROVIDER,
+};
+
+export function getProvider(kind: unknown): LLMProvider {
+  return PROVIDERS[kind as ProviderKind] ?? OPENAI_PROVIDER;
+}
+
+/** Format a provider error body into a safe, single-line Error */
+export function providerError(provider: LLMProvider, status: number, bodyText: string): Error {
+  const { code, message } = provider.parseError(bodyText);
+  const safeDetail = message ? sanitizeForLog(message) : `(response length ${bodyText.length})`;
+  const codePart = code ? ` ${code}` : '';
+  const err = new Error(`${provider.label} API error ${status}${codePart}: ${safeDetail}`);
+  // Tag with the HTTP status so retry logic can tell API errors from network failures
+  Object.defineProperty(err, 'status', { value: status });
+  return err;
+}
+
+/**
+ * Read a streamed chat response body (SSE or NDJSON, per the provider). Each content delta is passed
+ * to `onDelta` as it arrives and `onChunk` is called for every chunk of bytes (e.g. to reset an idle
+ * timer). Resolves with the untrimmed text once the provider signals the end or the body closes.
+ */
+export async function readChatStream(
+  provider: LLMProvider,
+  body: ReadableStream<Uint8Array>,
+  onDelta: (chunk: string) => void,
+  onChunk?: () => void
+): Promise<{ text: string; usage?: TokenUsage }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let full = "";
+  let usage: TokenUsage | undefined;
+  let buffer = "";
+  let done = false;
+  while (!done) {
+    const chunk = await reader.read();
+    if (chunk.done) break;
+    onChunk?.();
+    buffer += decoder.decode(chunk.value, { stream: true });
+    // Events are newline-delimited; keep the trailing partial line for the next chunk
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      let data = line.trim();
+      if (provider.streamFormat === "sse") {
+        // Only `data:` lines carry payloads; `event:` names are repeated inside the JSON
+        if (!data.startsWith("data:")) continue;
+        data = data.slice(5).trim();
+      }
+      if (!data) continue;
+      if (data === "[DONE]") { done = true; break; }
+      let json: unknown;
+      try { json = JSON.parse(data); } catch { continue; }
+      const ev = provider.parseStreamEvent(json);
+      if (ev.delta) {
+        full += ev.delta;
+        onDelta(ev.delta);
+      }
+      if (ev.usage) usage = { ...usage, ...definedOnly(ev.usage) };
+      if (ev.done) { done = true; break; }
+    }
+  }
+  if (done) reader.cancel().catch(() => { /* ignore */ });
+  return { text: full, usage };
+}